@@ -1,5 +1,49 @@
-chrome.action.onClicked.addListener(() => {
-  chrome.tabs.create({
-    url: chrome.runtime.getURL("index.html"),
+const GRAPH_PAGE_URL = chrome.runtime.getURL("index.html");
+const EDITOR_URL_PATTERN = /^https?:\/\/playcanvas\.com\/editor\//;
+
+function getPairedTabId(graphTab) {
+  try {
+    const value = new URL(graphTab.url).searchParams.get("tabId");
+    return value ? Number(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+function focusTab(tab) {
+  chrome.tabs.update(tab.id, { active: true });
+  if (typeof tab.windowId === "number") {
+    chrome.windows.update(tab.windowId, { focused: true });
+  }
+}
+
+chrome.action.onClicked.addListener((sourceTab) => {
+  const editorTabId =
+    sourceTab && EDITOR_URL_PATTERN.test(sourceTab.url || "")
+      ? sourceTab.id
+      : null;
+
+  chrome.tabs.query({}, (tabs) => {
+    const graphTabs = tabs.filter((tab) =>
+      (tab.url || "").startsWith(GRAPH_PAGE_URL)
+    );
+    // Reuse the graph tab already paired with this editor tab; when the
+    // action is clicked from elsewhere, reuse any open graph tab.
+    const existing =
+      editorTabId !== null
+        ? graphTabs.find((tab) => getPairedTabId(tab) === editorTabId)
+        : graphTabs[0];
+
+    if (existing) {
+      focusTab(existing);
+      return;
+    }
+
+    chrome.tabs.create({
+      url:
+        editorTabId !== null
+          ? `${GRAPH_PAGE_URL}?tabId=${editorTabId}`
+          : GRAPH_PAGE_URL,
+    });
   });
 });
@@ -3,6 +3,23 @@
   const entityWatchers = new Map();
   const collapseListenerMap = new WeakMap();
   let cameraFocusListenerRegistered = false;
+  // Identifies this injection of the bridge; a reload of the editor tab
+  // produces a new session, which tells the graph page to resync.
+  const bridgeSessionId = `bridge-${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+  let bridgeReady = false;
+  let bridgeStatusReason = "Waiting for PlayCanvas editor to load";
+  const EDITOR_FAST_RETRIES = 20;
+  const EDITOR_FAST_RETRY_MS = 250;
+  const EDITOR_SLOW_RETRY_MS = 2000;
+  // Only the most recent history entries are sent to the graph's panel
+  const HISTORY_ENTRY_LIMIT = 50;
+  // Scene patches are numbered per session; the graph requests a full
+  // snapshot when it sees a sequence number it did not expect.
+  let patchSequence = 0;
+  let pendingPatchOps = [];
+  let patchFlushScheduled = false;
 
   function inferAttributeType(value) {
     if (value === null || value === undefined) {
@@ -33,6 +50,17 @@
     }
   }
 
+  /**
+   * Copies a value so later edits to its source don't leak into it. Unlike
+   * cloneDefinition, falsy values such as 0, false, "" and null are kept.
+   */
+  function cloneValue(value) {
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    return cloneDefinition(value);
+  }
+
   function resolveAttributeValue(definition, value) {
     if (value !== undefined) {
       return value;
@@ -86,147 +114,163 @@
 
     return newMap;
   }
+
   /**
-   * Extracts a serializable representation of an entity's components.
-   * @param {object} entity - The PlayCanvas editor entity object.
-   * @returns {object} A map of component data, keyed by component type.
+   * Looks up the attribute schema of a script from its script asset.
+   * @param {string} scriptName - The script name (e.g. 'playerController').
+   * @returns {object|null} Attribute definitions keyed by attribute name.
    */
-  function getEntityComponents(entity) {
-    const components = {};
+  function getScriptAttributeDefinitions(scriptName) {
     const editor = window.editor;
-    // This is a simplified list. We may need to add more component types
-    // and their relevant properties as the tool develops.
-    const componentTypes = [
-      "script",
-      "model",
-      "collision",
-      "camera",
-      "light",
-      "rigidbody",
-    ];
-
-    componentTypes.forEach((type) => {
-      const componentData = entity.get(`components.${type}`);
-      if (componentData) {
-        components[type] = JSON.parse(JSON.stringify(componentData));
-      }
-    });
+    if (!editor) {
+      return null;
+    }
+    // Ensure map is initialized before looking anything up
+    if (!scriptNameToAssetIdMap) {
+      scriptNameToAssetIdMap = buildScriptNameMap();
+    }
 
-    // Special handling for scripts to get attributes
-    if (components.script && components.script.scripts && editor) {
-      // Ensure map is initialized once before the loop
-      if (!scriptNameToAssetIdMap) {
-        scriptNameToAssetIdMap = buildScriptNameMap();
-      }
+    // Find the corresponding asset ID from our global map
+    let assetId = scriptNameToAssetIdMap.get(scriptName);
+    let definitions = null;
 
-      // Now, iterate through the script instances on the entity
-      Object.keys(components.script.scripts).forEach((scriptName) => {
-        const scriptComponentInstance = components.script.scripts[scriptName];
-        const newAttributes = {};
+    if (!assetId) {
+      // Try to find the asset by searching for it directly (lazy lookup)
+      // This avoids rebuilding the entire map
+      const scriptAssets = editor.call("assets:list", { type: "script" });
+      let foundAssetId = null;
+      let maxAssetId = 0;
 
-        // Find the corresponding asset ID from our global map
-        let assetId = scriptNameToAssetIdMap.get(scriptName);
-        let definitions = null;
+      for (const asset of scriptAssets) {
+        try {
+          const assetScripts = asset.get("data.scripts");
+          if (assetScripts && typeof assetScripts === "object") {
+            if (
+              Object.prototype.hasOwnProperty.call(assetScripts, scriptName)
+            ) {
+              const candidateId = asset.get("id");
+              // If multiple assets have the same script name (e.g., after re-upload),
+              // choose the one with the highest ID (newest asset)
+              if (candidateId > maxAssetId) {
+                maxAssetId = candidateId;
+                foundAssetId = candidateId;
+              }
+            }
+          }
+        } catch (error) {
+          // Skip assets that can't be read
+        }
+      }
 
-        if (!assetId) {
-          // Try to find the asset by searching for it directly (lazy lookup)
-          // This avoids rebuilding the entire map
-          const scriptAssets = editor.call("assets:list", { type: "script" });
-          let foundAssetId = null;
-          let maxAssetId = 0;
+      if (foundAssetId) {
+        assetId = foundAssetId;
+        // Update the map for future lookups
+        scriptNameToAssetIdMap.set(scriptName, assetId);
+      }
+    }
 
-          for (const asset of scriptAssets) {
-            try {
-              const assetScripts = asset.get("data.scripts");
-              if (assetScripts && typeof assetScripts === "object") {
-                if (
-                  Object.prototype.hasOwnProperty.call(assetScripts, scriptName)
-                ) {
-                  const candidateId = asset.get("id");
-                  // If multiple assets have the same script name (e.g., after re-upload),
-                  // choose the one with the highest ID (newest asset)
+    if (!assetId) {
+      console.warn(
+        `[GraphBridge] Could not find asset ID for script "${scriptName}" in the project-wide map. Falling back to inferred attribute types.`
+      );
+    } else {
+      // Get the asset using the ID
+      let asset = editor.call("assets:get", assetId);
+      if (!asset) {
+        // Asset might have been re-uploaded and the ID is stale.
+        // Try lazy lookup again to find the new asset ID
+        // When multiple assets have the same script name, choose the one with highest ID (newest)
+        const scriptAssets = editor.call("assets:list", { type: "script" });
+        let foundAsset = null;
+        let foundAssetId = null;
+        let maxAssetId = 0;
+
+        for (const candidateAsset of scriptAssets) {
+          try {
+            const assetScripts = candidateAsset.get("data.scripts");
+            if (assetScripts && typeof assetScripts === "object") {
+              if (
+                Object.prototype.hasOwnProperty.call(
+                  assetScripts,
+                  scriptName
+                )
+              ) {
+                const candidateId = candidateAsset.get("id");
+                const candidateAssetObj = editor.call(
+                  "assets:get",
+                  candidateId
+                );
+                if (candidateAssetObj) {
+                  // If multiple assets have the same script name, choose the one with highest ID (newest)
                   if (candidateId > maxAssetId) {
                     maxAssetId = candidateId;
+                    foundAsset = candidateAssetObj;
                     foundAssetId = candidateId;
                   }
                 }
               }
-            } catch (error) {
-              // Skip assets that can't be read
             }
+          } catch (error) {
+            // Skip assets that can't be read
           }
+        }
 
-          if (foundAssetId) {
-            assetId = foundAssetId;
-            // Update the map for future lookups
-            scriptNameToAssetIdMap.set(scriptName, assetId);
-          }
+        if (foundAsset && foundAssetId) {
+          asset = foundAsset;
+          // Update the map with the new asset ID
+          scriptNameToAssetIdMap.set(scriptName, foundAssetId);
+          assetId = foundAssetId;
         }
+      }
 
-        if (!assetId) {
-          console.warn(
-            `[GraphBridge] Could not find asset ID for script "${scriptName}" in the project-wide map. Falling back to inferred attribute types.`
-          );
-        } else {
-          // Get the asset using the ID
-          let asset = editor.call("assets:get", assetId);
-          if (!asset) {
-            // Asset might have been re-uploaded and the ID is stale.
-            // Try lazy lookup again to find the new asset ID
-            // When multiple assets have the same script name, choose the one with highest ID (newest)
-            const scriptAssets = editor.call("assets:list", { type: "script" });
-            let foundAsset = null;
-            let foundAssetId = null;
-            let maxAssetId = 0;
-
-            for (const candidateAsset of scriptAssets) {
-              try {
-                const assetScripts = candidateAsset.get("data.scripts");
-                if (assetScripts && typeof assetScripts === "object") {
-                  if (
-                    Object.prototype.hasOwnProperty.call(
-                      assetScripts,
-                      scriptName
-                    )
-                  ) {
-                    const candidateId = candidateAsset.get("id");
-                    const candidateAssetObj = editor.call(
-                      "assets:get",
-                      candidateId
-                    );
-                    if (candidateAssetObj) {
-                      // If multiple assets have the same script name, choose the one with highest ID (newest)
-                      if (candidateId > maxAssetId) {
-                        maxAssetId = candidateId;
-                        foundAsset = candidateAssetObj;
-                        foundAssetId = candidateId;
-                      }
-                    }
-                  }
-                }
-              } catch (error) {
-                // Skip assets that can't be read
-              }
-            }
+      if (!asset) {
+        console.warn(
+          `[GraphBridge] Could not get asset for script "${scriptName}". Falling back to inferred attribute types.`
+        );
+      } else {
+        // Get the schema (definitions) from the asset data
+        definitions =
+          asset.get(`data.scripts.${scriptName}.attributes`) || null;
+      }
+    }
 
-            if (foundAsset && foundAssetId) {
-              asset = foundAsset;
-              // Update the map with the new asset ID
-              scriptNameToAssetIdMap.set(scriptName, foundAssetId);
-              assetId = foundAssetId;
-            }
-          }
+    return definitions;
+  }
+
+  /**
+   * Builds the attribute payload ({ type, value, definition }) sent to the graph.
+   */
+  function serializeScriptAttribute(definition, rawValue) {
+    return {
+      type:
+        (definition && definition.type) ||
+        inferAttributeType(rawValue) ||
+        "json",
+      value: resolveAttributeValue(definition, rawValue),
+      definition: cloneDefinition(definition),
+    };
+  }
+
+  /**
+   * Serializes a single component of an entity.
+   * @param {object} entity - The PlayCanvas editor entity object.
+   * @param {string} type - The component type, e.g. 'script'.
+   * @returns {object|null} The component data, or null when it is absent.
+   */
+  function serializeComponent(entity, type) {
+    const componentData = entity.get(`components.${type}`);
+    if (!componentData) {
+      return null;
+    }
+    const component = JSON.parse(JSON.stringify(componentData));
+
+    // Special handling for scripts to get attributes
+    if (type === "script" && component.scripts && window.editor) {
+      Object.keys(component.scripts).forEach((scriptName) => {
+        const scriptComponentInstance = component.scripts[scriptName];
+        const newAttributes = {};
+        const definitions = getScriptAttributeDefinitions(scriptName);
 
-          if (!asset) {
-            console.warn(
-              `[GraphBridge] Could not get asset for script "${scriptName}". Falling back to inferred attribute types.`
-            );
-          } else {
-            // Get the schema (definitions) from the asset data
-            definitions =
-              asset.get(`data.scripts.${scriptName}.attributes`) || null;
-          }
-        }
         // Get the values from the entity's component instance
         const values = scriptComponentInstance.attributes || {};
 
@@ -243,17 +287,10 @@
           )
             ? values[attrName]
             : undefined;
-          const resolvedValue = resolveAttributeValue(definition, rawValue);
-          const attributeType =
-            (definition && definition.type) ||
-            inferAttributeType(rawValue) ||
-            "json";
-
-          newAttributes[attrName] = {
-            type: attributeType,
-            value: resolvedValue,
-            definition: cloneDefinition(definition),
-          };
+          newAttributes[attrName] = serializeScriptAttribute(
+            definition,
+            rawValue
+          );
         });
 
         // Replace the old attributes object with our new, detailed one.
@@ -261,6 +298,25 @@
       });
     }
 
+    return component;
+  }
+
+  /**
+   * Extracts a serializable representation of an entity's components.
+   * @param {object} entity - The PlayCanvas editor entity object.
+   * @returns {object} A map of component data, keyed by component type.
+   */
+  function getEntityComponents(entity) {
+    const components = {};
+    // Serialize every component present on the entity (render, element,
+    // sound, ...) rather than a fixed list of known types.
+    const componentTypes = Object.keys(entity.get("components") || {});
+    componentTypes.forEach((type) => {
+      const component = serializeComponent(entity, type);
+      if (component) {
+        components[type] = component;
+      }
+    });
     return components;
   }
 
@@ -273,6 +329,25 @@
     return null;
   }
 
+  // Entity-level properties shown and edited on the entity node
+  const ENTITY_CORE_PROPERTIES = [
+    "enabled",
+    "tags",
+    "position",
+    "rotation",
+    "scale",
+  ];
+
+  function getEntityCoreProperties(entity) {
+    const properties = {};
+    ENTITY_CORE_PROPERTIES.forEach((property) => {
+      const value = entity.get(property);
+      properties[property] =
+        value === undefined ? null : JSON.parse(JSON.stringify(value));
+    });
+    return properties;
+  }
+
   function serializeEntityData(entity) {
     if (!entity || typeof entity.get !== "function") {
       return null;
@@ -297,6 +372,7 @@
       parentId: entity.get("parent") || null,
       children,
       components: getEntityComponents(entity),
+      ...getEntityCoreProperties(entity),
     };
   }
 
@@ -310,6 +386,100 @@
     );
   }
 
+  /**
+   * Ops that overwrite the same target are compacted within a batch, so a
+   * slider drag only ships its final value.
+   */
+  function getPatchOpKey(op) {
+    switch (op.op) {
+      case "entity:set":
+        return `set:${op.guid}:${op.path}`;
+      case "component:set":
+        return `component:${op.guid}:${op.component}`;
+      case "attribute:set":
+        return `attribute:${op.guid}:${op.scriptName}:${op.attributeName}`;
+      default:
+        return null;
+    }
+  }
+
+  function queuePatchOp(op) {
+    const key = getPatchOpKey(op);
+    if (key) {
+      pendingPatchOps = pendingPatchOps.filter(
+        (pending) => getPatchOpKey(pending) !== key
+      );
+    }
+    pendingPatchOps.push(op);
+
+    if (!patchFlushScheduled) {
+      patchFlushScheduled = true;
+      setTimeout(flushPatchOps, 0);
+    }
+  }
+
+  function flushPatchOps() {
+    patchFlushScheduled = false;
+    if (pendingPatchOps.length === 0) {
+      return;
+    }
+    const ops = pendingPatchOps;
+    pendingPatchOps = [];
+    patchSequence += 1;
+    postGraphMessage("PC_GRAPH_PATCH", {
+      sessionId: bridgeSessionId,
+      sequence: patchSequence,
+      ops,
+    });
+  }
+
+  function getChildIndex(parent, guid) {
+    const children = (parent && parent.get("children")) || [];
+    const index = children.map(normalizeChildId).indexOf(guid);
+    return index >= 0 ? index : null;
+  }
+
+  const SCRIPT_ATTRIBUTE_PATH =
+    /^components\.script\.scripts\.([^.]+)\.attributes\.([^.]+)/;
+  const COMPONENT_PATH = /^components\.([^.]+)/;
+
+  /**
+   * Turns an observer path change into the narrowest patch op that covers it.
+   */
+  function queueComponentPathChange(entity, guid, path) {
+    const attributeMatch = SCRIPT_ATTRIBUTE_PATH.exec(path);
+    if (
+      attributeMatch &&
+      entity.has(`components.script.scripts.${attributeMatch[1]}`)
+    ) {
+      const [, scriptName, attributeName] = attributeMatch;
+      const definitions = getScriptAttributeDefinitions(scriptName);
+      queuePatchOp({
+        op: "attribute:set",
+        guid,
+        scriptName,
+        attributeName,
+        attribute: serializeScriptAttribute(
+          definitions ? definitions[attributeName] : null,
+          entity.get(
+            `components.script.scripts.${scriptName}.attributes.${attributeName}`
+          )
+        ),
+      });
+      return;
+    }
+
+    const componentMatch = COMPONENT_PATH.exec(path);
+    if (componentMatch) {
+      queuePatchOp({
+        op: "component:set",
+        guid,
+        component: componentMatch[1],
+        data: serializeComponent(entity, componentMatch[1]),
+      });
+    }
+  }
+
   function registerCameraFocusListener() {
     const editor = window.editor;
     if (
@@ -502,6 +672,7 @@
       parentId,
       children: childrenGuids,
       components: getEntityComponents(entity),
+      ...getEntityCoreProperties(entity),
     });
 
     childrenGuids.forEach((childGuid) => {
@@ -532,6 +703,9 @@
       return { success: false, error: "Scene root not found" };
     }
 
+    // Ship queued changes first so the snapshot's sequence covers them
+    flushPatchOps();
+
     const entitiesMap = new Map();
     traverseEntity(rootEntity, entitiesMap, null);
 
@@ -539,9 +713,7 @@
     // to kick off the traversal on the other side.
     const rootGuid = rootEntity.get("resource_id");
 
-    const config = window.config || {};
-    const projectId = config.project?.id ?? null;
-    const sceneId = config.scene?.id ?? null;
+    const { projectId, projectName, sceneId, sceneName } = getEditorInfo();
     const collapsedState = getCollapsedStateSnapshot();
 
     return {
@@ -553,11 +725,29 @@
           editor.call("selector:items")?.[0]?.get("name") || null,
         projectId,
         sceneId,
+        projectName,
+        sceneName,
         collapsedState,
+        sequence: patchSequence,
+        sessionId: bridgeSessionId,
       },
     };
   }
 
+  /**
+   * Reads which project and scene this editor tab has loaded.
+   * @returns {object} Project/scene ids and display names.
+   */
+  function getEditorInfo() {
+    const config = window.config || {};
+    return {
+      projectId: config.project?.id ?? null,
+      projectName: config.project?.name ?? null,
+      sceneId: config.scene?.id ?? null,
+      sceneName: config.scene?.name ?? null,
+    };
+  }
+
   function respond(requestId, payload) {
     window.postMessage(
       {
@@ -587,17 +777,23 @@
     const editor = window.editor;
     if (!editor) return;
 
-    const selection = editor.call("selector:items") || [];
-    const selectedGuid =
-      selection.length > 0 ? selection[0].get("resource_id") : null;
+    // Asset selections are not mirrored on the graph
+    const selection =
+      editor.call("selector:type") === "entity"
+        ? editor.call("selector:items") || []
+        : [];
+    const selectedGuids = selection
+      .map((entity) => entity.get("resource_id"))
+      .filter(Boolean);
     const selectedName = selection.length > 0 ? selection[0].get("name") : null;
 
     window.postMessage(
       {
         type: "PC_GRAPH_SELECTION_UPDATE",
         payload: {
-          entityGuid: selectedGuid,
+          entityGuid: selectedGuids[0] ?? null,
           entityName: selectedName,
+          entityGuids: selectedGuids,
         },
       },
       "*"
@@ -662,32 +858,52 @@
     }
   }
 
-  function handleSetSelection(payload) {
+  function requireEditor() {
     const editor = window.editor;
-    if (!editor) return;
-
-    const { entityGuid } = payload;
-    const entity = editor.call("entities:get", entityGuid);
-    if (entity) {
-      editor.call("selector:set", "entity", [entity]);
-    } else {
-      editor.call("selector:clear");
+    if (!editor || typeof editor.call !== "function") {
+      throw new Error("PlayCanvas editor not detected");
     }
+    return editor;
   }
 
-  function handleFocusRequest(payload) {
-    const editor = window.editor;
-    if (!editor || !payload || !payload.entityGuid) {
-      return;
+  function requireWritePermission(editor) {
+    if (editor.call("permissions:write") === false) {
+      throw new Error("You do not have write access to this project");
     }
+  }
 
-    const entity = editor.call("entities:get", payload.entityGuid);
+  function requireEntity(editor, guid, action) {
+    const entity = editor.call("entities:get", guid);
     if (!entity) {
-      console.warn(
-        `[GraphBridge] Cannot focus entity: ${payload.entityGuid} not found`
-      );
+      throw new Error(`Cannot ${action}: entity ${guid} not found`);
+    }
+    return entity;
+  }
+
+  function handleSetSelection(payload) {
+    const editor = requireEditor();
+
+    const { entityGuid, entityGuids } = payload || {};
+    const guids = Array.isArray(entityGuids)
+      ? entityGuids
+      : entityGuid
+      ? [entityGuid]
+      : [];
+    if (!guids.length) {
+      editor.call("selector:clear");
       return;
     }
+    const entities = guids.map((guid) => requireEntity(editor, guid, "select"));
+    editor.call("selector:set", "entity", entities);
+  }
+
+  function handleFocusRequest(payload) {
+    const editor = requireEditor();
+    if (!payload || !payload.entityGuid) {
+      throw new Error("Invalid focus payload");
+    }
+
+    const entity = requireEntity(editor, payload.entityGuid, "focus");
 
     editor.call("selector:set", "entity", [entity]);
     setTimeout(() => {
@@ -696,19 +912,22 @@
   }
 
   function handleCollapseStateRequest(payload) {
-    const editor = window.editor;
-    if (!editor || !payload || !payload.entityGuid) {
-      return;
+    requireEditor();
+    if (!payload || !payload.entityGuid) {
+      throw new Error("Invalid collapse payload");
     }
 
     const treeView = getHierarchyTreeView();
     if (!treeView || typeof treeView.getTreeItemForEntity !== "function") {
+      // Hierarchy panel not mounted yet; nothing to mirror
       return;
     }
 
     const item = treeView.getTreeItemForEntity(payload.entityGuid);
     if (!item) {
-      return;
+      throw new Error(
+        `Cannot collapse: entity ${payload.entityGuid} not found in hierarchy`
+      );
     }
 
     const desiredOpen = !payload.collapsed;
@@ -718,18 +937,13 @@
   }
 
   function handleReparentRequest(payload) {
-    const editor = window.editor;
-    if (!editor || !payload || !payload.entityGuid) {
-      return;
+    const editor = requireEditor();
+    if (!payload || !payload.entityGuid) {
+      throw new Error("Invalid reparent payload");
     }
 
-    const entity = editor.call("entities:get", payload.entityGuid);
-    if (!entity) {
-      console.error(
-        `[GraphBridge] Cannot reparent: entity ${payload.entityGuid} not found`
-      );
-      return;
-    }
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, payload.entityGuid, "reparent");
 
     const newParentGuid = payload.newParentGuid || null;
     const parent = newParentGuid
@@ -737,37 +951,34 @@
       : editor.call("entities:root");
 
     if (!parent) {
-      console.error(
-        `[GraphBridge] Cannot reparent: parent ${newParentGuid} not found`
-      );
-      return;
-    }
+      throw new Error(`Cannot reparent: parent ${newParentGuid} not found`);
+    }
+
+    editor.call(
+      "entities:reparent",
+      [
+        {
+          entity,
+          parent,
+          index:
+            typeof payload.insertIndex === "number"
+              ? payload.insertIndex
+              : undefined,
+        },
+      ],
+      payload.preserveTransform !== false
+    );
 
-    try {
-      editor.call(
-        "entities:reparent",
-        [
-          {
-            entity,
-            parent,
-            index:
-              typeof payload.insertIndex === "number"
-                ? payload.insertIndex
-                : undefined,
-          },
-        ],
-        payload.preserveTransform !== false
-      );
-    } catch (error) {
-      console.error("[GraphBridge] Failed to reparent entity", error);
+    const actualParent = entity.get("parent") || null;
+    const expectedParent = parent.get("resource_id");
+    if (actualParent !== expectedParent) {
+      throw new Error("PlayCanvas editor rejected the reparent");
     }
   }
 
   function handleAddEntityRequest(payload) {
-    const editor = window.editor;
-    if (!editor) {
-      return;
-    }
+    const editor = requireEditor();
+    requireWritePermission(editor);
 
     const { parentGuid, name } = payload || {};
     let parent = null;
@@ -781,25 +992,140 @@
       }
     }
 
-    try {
-      const newEntityData = {
-        name: name || "New Entity",
-        parent: parent, // can be null/undefined
-      };
+    const newEntityData = {
+      name: name || "New Entity",
+      parent: parent, // can be null/undefined
+    };
+
+    const newEntity = editor.call("entities:new", newEntityData);
+    if (!newEntity) {
+      throw new Error("PlayCanvas editor did not create the entity");
+    }
+
+    // Select the new entity
+    editor.call("selector:set", "entity", [newEntity]);
+    // Focus on the new entity
+    setTimeout(() => {
+      editor.call("viewport:focus");
+    }, 0);
+
+    return { guid: newEntity.get("resource_id") };
+  }
+
+  function handleRenameEntityRequest(payload) {
+    const editor = requireEditor();
+    const { entityGuid, name } = payload || {};
+    if (!entityGuid || typeof name !== "string" || !name.trim()) {
+      throw new Error("An entity name cannot be empty");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "rename entity");
+    const previousName = entity.get("name");
+    setWithHistory(
+      editor,
+      entity,
+      "name",
+      name.trim(),
+      `Rename ${previousName} to ${name.trim()}`
+    );
+  }
+
+  function handleDeleteEntitiesRequest(payload) {
+    const editor = requireEditor();
+    const { entityGuids } = payload || {};
+    if (!Array.isArray(entityGuids) || entityGuids.length === 0) {
+      throw new Error("Missing entities to delete");
+    }
 
-      const newEntity = editor.call("entities:new", newEntityData);
+    requireWritePermission(editor);
+    const entities = entityGuids.map((guid) =>
+      requireEntity(editor, guid, "delete entity")
+    );
+    if (entities.some((entity) => !entity.get("parent"))) {
+      throw new Error("The scene root cannot be deleted");
+    }
 
-      if (newEntity) {
-        // Select the new entity
-        editor.call("selector:set", "entity", [newEntity]);
-        // Focus on the new entity
-        setTimeout(() => {
-          editor.call("viewport:focus");
-        }, 0);
+    // Use the editor's own delete command: it sets entity references to the
+    // deleted subtrees to null and records both as one history entry, so
+    // undo restores the entities and the references together.
+    editor.call("entities:delete", entities);
+  }
+
+  /**
+   * Pairs every entity of a duplicated subtree with its source. Duplicates
+   * keep the child order of the original, so the trees are walked in step.
+   */
+  function mapDuplicatedSubtree(editor, sourceGuid, duplicateGuid, mapping) {
+    const source = editor.call("entities:get", sourceGuid);
+    const duplicate = editor.call("entities:get", duplicateGuid);
+    mapping.push({ sourceGuid, guid: duplicateGuid });
+    if (!source || !duplicate) {
+      return mapping;
+    }
+
+    const sourceChildren = source.get("children") || [];
+    const duplicateChildren = duplicate.get("children") || [];
+    sourceChildren.forEach((childGuid, index) => {
+      if (duplicateChildren[index]) {
+        mapDuplicatedSubtree(
+          editor,
+          childGuid,
+          duplicateChildren[index],
+          mapping
+        );
       }
-    } catch (error) {
-      console.error("[GraphBridge] Failed to add entity", error);
+    });
+    return mapping;
+  }
+
+  async function handleDuplicateEntitiesRequest(payload) {
+    const editor = requireEditor();
+    const { entityGuids } = payload || {};
+    if (!Array.isArray(entityGuids) || entityGuids.length === 0) {
+      throw new Error("Missing entities to duplicate");
     }
+
+    requireWritePermission(editor);
+    const sources = entityGuids.map((guid) =>
+      requireEntity(editor, guid, "duplicate entity")
+    );
+    if (sources.some((entity) => !entity.get("parent"))) {
+      throw new Error("The scene root cannot be duplicated");
+    }
+
+    // Both paths go through the editor's duplicate command, which copies
+    // children and script attributes and records a single history entry.
+    const entitiesApi =
+      editor.api && editor.api.globals ? editor.api.globals.entities : null;
+    let duplicateGuids;
+    if (entitiesApi && typeof entitiesApi.duplicate === "function") {
+      const apiEntities = sources.map((entity) =>
+        entitiesApi.get(entity.get("resource_id"))
+      );
+      const duplicates = await entitiesApi.duplicate(apiEntities, {
+        select: true,
+      });
+      duplicateGuids = (duplicates || []).map((entity) =>
+        entity.get("resource_id")
+      );
+    } else {
+      editor.call("entities:duplicate", sources);
+      // The legacy command selects the copies it created
+      duplicateGuids = (editor.call("selector:items") || []).map((entity) =>
+        entity.get("resource_id")
+      );
+    }
+
+    if (duplicateGuids.length !== sources.length) {
+      throw new Error("PlayCanvas editor did not duplicate the entities");
+    }
+
+    return {
+      duplicates: entityGuids.flatMap((sourceGuid, index) =>
+        mapDuplicatedSubtree(editor, sourceGuid, duplicateGuids[index], [])
+      ),
+    };
   }
 
   function registerEntityWatcher(entity) {
@@ -814,45 +1140,65 @@
 
     const disposers = [];
 
-    const emitEntityUpdate = () => {
-      const serialized = serializeEntityData(entity);
-      if (serialized) {
-        postGraphMessage("PC_GRAPH_ENTITY_UPDATED", { entity: serialized });
+    const nameHandler = (value) => {
+      queuePatchOp({ op: "entity:set", guid, path: "name", value });
+    };
+    const childrenHandler = (child, index) => {
+      const childGuid = normalizeChildId(child);
+      if (!childGuid) {
+        return;
       }
+      queuePatchOp({
+        op: "entity:move",
+        guid: childGuid,
+        parentId: guid,
+        index:
+          typeof index === "number" ? index : getChildIndex(entity, childGuid),
+      });
     };
-
-    const nameHandler = emitEntityUpdate;
-    const parentHandler = emitEntityUpdate;
-    const childrenHandler = emitEntityUpdate;
-    const scriptAttributeHandler = (path) => {
+    const componentHandler = (path) => {
       if (typeof path !== "string") {
         return;
       }
-      if (!path.startsWith("components.script")) {
+      if (path.startsWith("components.")) {
+        queueComponentPathChange(entity, guid, path);
         return;
       }
-      emitEntityUpdate();
+      // Covers `position:set`, `position.0:set` and `tags:insert` alike
+      const property = path.split(".")[0];
+      if (ENTITY_CORE_PROPERTIES.includes(property)) {
+        queuePatchOp({
+          op: "entity:set",
+          guid,
+          path: property,
+          value: getEntityCoreProperties(entity)[property],
+        });
+      }
     };
 
+    // Removals from `children` are covered by the matching insert on the new
+    // parent, or by entities:remove when the child is deleted.
     if (typeof entity.on === "function") {
       entity.on("name:set", nameHandler);
-      entity.on("parent:set", parentHandler);
       entity.on("children:insert", childrenHandler);
-      entity.on("children:remove", childrenHandler);
       entity.on("children:move", childrenHandler);
-      entity.on("*:set", scriptAttributeHandler);
-      entity.on("*:unset", scriptAttributeHandler);
+      entity.on("*:set", componentHandler);
+      entity.on("*:unset", componentHandler);
+      entity.on("*:insert", componentHandler);
+      entity.on("*:remove", componentHandler);
+      entity.on("*:move", componentHandler);
     }
 
     disposers.push(() => {
       if (typeof entity.off === "function") {
         entity.off("name:set", nameHandler);
-        entity.off("parent:set", parentHandler);
         entity.off("children:insert", childrenHandler);
-        entity.off("children:remove", childrenHandler);
         entity.off("children:move", childrenHandler);
-        entity.off("*:set", scriptAttributeHandler);
-        entity.off("*:unset", scriptAttributeHandler);
+        entity.off("*:set", componentHandler);
+        entity.off("*:unset", componentHandler);
+        entity.off("*:insert", componentHandler);
+        entity.off("*:remove", componentHandler);
+        entity.off("*:move", componentHandler);
       }
     });
 
@@ -885,15 +1231,38 @@
     entityWatchers.delete(guid);
   }
 
-  function tryInitializeSelectorWatcher(retriesLeft = 20) {
+  function getHeartbeatPayload() {
+    return {
+      ready: bridgeReady,
+      sessionId: bridgeSessionId,
+      reason: bridgeReady ? undefined : bridgeStatusReason,
+    };
+  }
+
+  function tryInitializeSelectorWatcher(retriesLeft = EDITOR_FAST_RETRIES) {
     const editor = window.editor;
     if (!editor || typeof editor.on !== "function") {
       if (retriesLeft > 0) {
-        setTimeout(() => tryInitializeSelectorWatcher(retriesLeft - 1), 250);
+        setTimeout(
+          () => tryInitializeSelectorWatcher(retriesLeft - 1),
+          EDITOR_FAST_RETRY_MS
+        );
+        return;
+      }
+      // Keep polling at a slower pace instead of giving up, and let the
+      // heartbeat report why the bridge is not ready yet.
+      if (bridgeStatusReason !== "PlayCanvas editor API not found") {
+        console.warn(
+          "[GraphBridge] PlayCanvas editor API not found, still waiting"
+        );
+        bridgeStatusReason = "PlayCanvas editor API not found";
       }
+      setTimeout(() => tryInitializeSelectorWatcher(0), EDITOR_SLOW_RETRY_MS);
       return;
     }
 
+    bridgeStatusReason = "Waiting for PlayCanvas assets to load";
+
     // The 'editor:ready' event fires when the editor is fully initialized.
     // This is the correct and reliable time to perform our one-time setup.
     editor.once("assets:load", () => {
@@ -942,13 +1311,13 @@
                     scriptName
                   )
                 ) {
-                  // Re-serialize and broadcast this entity's update
-                  const serialized = serializeEntityData(entity);
-                  if (serialized) {
-                    postGraphMessage("PC_GRAPH_ENTITY_UPDATED", {
-                      entity: serialized,
-                    });
-                  }
+                  // Re-serialize the script component with the new schema
+                  queuePatchOp({
+                    op: "component:set",
+                    guid: entity.get("resource_id"),
+                    component: "script",
+                    data: serializeComponent(entity, "script"),
+                  });
                 }
               }
             } catch (error) {
@@ -989,7 +1358,14 @@
           registerEntityWatcher(entity);
           const serialized = serializeEntityData(entity);
           if (serialized) {
-            postGraphMessage("PC_GRAPH_ENTITY_ADDED", { entity: serialized });
+            const parent = serialized.parentId
+              ? editor.call("entities:get", serialized.parentId)
+              : null;
+            queuePatchOp({
+              op: "entity:add",
+              entity: serialized,
+              index: getChildIndex(parent, serialized.guid),
+            });
           }
         } catch (error) {
           console.error("[GraphBridge] Failed to handle entity add", error);
@@ -1004,7 +1380,7 @@
               : null;
           unregisterEntityWatcher(entity);
           if (guid) {
-            postGraphMessage("PC_GRAPH_ENTITY_REMOVED", { guid });
+            queuePatchOp({ op: "entity:remove", guid });
           }
         } catch (error) {
           console.error("[GraphBridge] Failed to handle entity removal", error);
@@ -1020,6 +1396,11 @@
         }
       });
 
+      watchHistory(editor);
+
+      bridgeReady = true;
+      postGraphMessage("PC_GRAPH_BRIDGE_READY", getHeartbeatPayload());
+
       // And perform the initial broadcast to load the scene graph.
       broadcastSelection();
       // Also broadcast initial selection state
@@ -1027,107 +1408,586 @@
     });
   }
 
-  function handleAttributeUpdate(payload) {
-    const editor = window.editor;
-    const { entityGuid, scriptName, attributeName } = payload || {};
+  function getHistory(editor) {
+    return editor && editor.api && editor.api.globals
+      ? editor.api.globals.history || null
+      : null;
+  }
 
-    if (!editor || !entityGuid || !scriptName || !attributeName) {
-      console.error("[GraphBridge] Invalid attribute update payload", payload);
+  /**
+   * The editor's undo state plus the names of its most recent entries;
+   * `done` is false for entries that were undone and can be redone.
+   */
+  function getHistorySnapshot(history) {
+    const actions = Array.isArray(history._actions) ? history._actions : [];
+    const currentIndex =
+      typeof history._currentActionIndex === "number"
+        ? history._currentActionIndex
+        : actions.length - 1;
+    const start = Math.max(0, actions.length - HISTORY_ENTRY_LIMIT);
+    return {
+      canUndo: !!history.canUndo,
+      canRedo: !!history.canRedo,
+      entries: actions.slice(start).map((action, offset) => ({
+        name: (action && action.name) || "Unnamed action",
+        done: start + offset <= currentIndex,
+      })),
+    };
+  }
+
+  let historyBroadcastScheduled = false;
+
+  /**
+   * Several history events fire for one action (add, then canUndo), so the
+   * snapshot is sent once per tick.
+   */
+  function broadcastHistoryState() {
+    if (historyBroadcastScheduled) {
       return;
     }
+    historyBroadcastScheduled = true;
+    setTimeout(() => {
+      historyBroadcastScheduled = false;
+      const history = getHistory(window.editor);
+      if (history) {
+        postGraphMessage("PC_GRAPH_HISTORY", getHistorySnapshot(history));
+      }
+    }, 0);
+  }
 
-    const entity = editor.call("entities:get", entityGuid);
-    if (!entity) {
-      console.error(
-        `[GraphBridge] Could not find entity with GUID: ${entityGuid}`
-      );
+  function watchHistory(editor) {
+    const history = getHistory(editor);
+    if (!history || typeof history.on !== "function") {
       return;
     }
+    ["add", "undo", "redo", "clear", "canUndo", "canRedo"].forEach(
+      (eventName) => {
+        history.on(eventName, broadcastHistoryState);
+      }
+    );
+    broadcastHistoryState();
+  }
 
-    const path = `components.script.scripts.${scriptName}.attributes.${attributeName}`;
-    const oldValue = entity.get(path);
-    const nextValue = Object.prototype.hasOwnProperty.call(payload, "value")
-      ? payload.value
-      : payload?.targetEntityGuid ?? null;
+  /**
+   * Undoes or redoes up to `steps` editor history entries, stopping early
+   * when there is nothing left to step through.
+   */
+  function handleHistoryStepRequest(payload) {
+    const editor = requireEditor();
+    const { direction } = payload || {};
+    const steps = Math.max(1, Math.floor(Number(payload?.steps) || 1));
+    if (direction !== "undo" && direction !== "redo") {
+      throw new Error("Invalid history step payload");
+    }
 
-    const history =
-      editor && editor.api && editor.api.globals
-        ? editor.api.globals.history
-        : null;
+    requireWritePermission(editor);
+    const history = getHistory(editor);
+    if (!history || typeof history[direction] !== "function") {
+      throw new Error("Editor history is not available");
+    }
+
+    for (let step = 0; step < steps; step++) {
+      if (direction === "undo" ? !history.canUndo : !history.canRedo) {
+        break;
+      }
+      history[direction]();
+    }
+    return getHistorySnapshot(history);
+  }
+
+  /**
+   * Sets an observer path and records it in the editor's undo history, so
+   * Ctrl+Z in the editor reverts changes made from the graph.
+   */
+  function setWithHistory(editor, entity, path, nextValue, name) {
+    setManyWithHistory(editor, [{ entity, path, value: nextValue }], name);
+  }
+
+  /**
+   * Like setWithHistory, but for several writes that undo and redo together
+   * as a single history entry.
+   */
+  function setManyWithHistory(editor, changes, name) {
+    const records = changes.map(({ entity, path, value }) => {
+      const existed = entity.has(path);
+      return {
+        entity,
+        path,
+        value,
+        existed,
+        // Copy objects so later edits to the observer don't leak into the undo
+        oldValue: existed ? cloneValue(entity.get(path)) : undefined,
+      };
+    });
+    const history = getHistory(editor);
 
     if (history && typeof history.add === "function") {
       history.add({
-        name: `Update ${scriptName}.${attributeName}`,
+        name,
         undo: () => {
-          entity.set(path, oldValue);
+          records.forEach((record) => {
+            if (record.existed) {
+              record.entity.set(record.path, record.oldValue);
+            } else {
+              record.entity.unset(record.path);
+            }
+          });
         },
         redo: () => {
-          entity.set(path, nextValue);
+          records.forEach((record) => {
+            record.entity.set(record.path, record.value);
+          });
         },
       });
     }
 
     // Apply the change immediately; history undo/redo callbacks handle symmetry
-    entity.set(path, nextValue);
+    records.forEach((record) => {
+      record.entity.set(record.path, record.value);
+    });
   }
 
-  window.addEventListener("message", (event) => {
-    if (event.source !== window) {
+  /**
+   * Attribute values a freshly added script starts with: the defaults from
+   * its definition, or empty arrays for array attributes without one.
+   */
+  function getScriptAttributeDefaults(scriptName) {
+    const definitions = getScriptAttributeDefinitions(scriptName) || {};
+    const attributes = {};
+    Object.keys(definitions).forEach((attributeName) => {
+      const definition = definitions[attributeName];
+      const value = resolveAttributeValue(definition, undefined);
+      attributes[attributeName] =
+        value === null && definition && definition.array
+          ? []
+          : cloneValue(value);
+    });
+    return attributes;
+  }
+
+  /**
+   * The Editor API wrapper of an entity, when this editor exposes one.
+   */
+  function getApiEntity(editor, guid) {
+    const entitiesApi =
+      editor.api && editor.api.globals ? editor.api.globals.entities : null;
+    return entitiesApi && typeof entitiesApi.get === "function"
+      ? entitiesApi.get(guid)
+      : null;
+  }
+
+  /**
+   * Writes one script instance and its order entry, leaving the rest of the
+   * script component alone so concurrent edits to other scripts survive.
+   */
+  function insertScriptEntry(entity, scriptName, instance, index) {
+    entity.set(`components.script.scripts.${scriptName}`, instance);
+    const order = entity.get("components.script.order");
+    if (!Array.isArray(order)) {
+      entity.set("components.script.order", [scriptName]);
+    } else if (!order.includes(scriptName)) {
+      entity.insert(
+        "components.script.order",
+        scriptName,
+        index >= 0 && index <= order.length ? index : order.length
+      );
+    }
+  }
+
+  function removeScriptEntry(entity, scriptName) {
+    entity.unset(`components.script.scripts.${scriptName}`);
+    const order = entity.get("components.script.order");
+    if (Array.isArray(order) && order.includes(scriptName)) {
+      entity.removeValue("components.script.order", scriptName);
+    }
+  }
+
+  /**
+   * Records an add or remove of one script instance in the editor's undo
+   * history, then applies it.
+   */
+  function toggleScriptEntryWithHistory(editor, entity, scriptName, options) {
+    const { instance, index, add, name } = options;
+    const apply = () => insertScriptEntry(entity, scriptName, instance, index);
+    const revert = () => removeScriptEntry(entity, scriptName);
+    const history = getHistory(editor);
+
+    if (history && typeof history.add === "function") {
+      history.add({
+        name,
+        undo: add ? revert : apply,
+        redo: add ? apply : revert,
+      });
+    }
+
+    if (add) {
+      apply();
+    } else {
+      revert();
+    }
+  }
+
+  function handleAddScriptRequest(payload) {
+    const editor = requireEditor();
+    const { entityGuid, scriptName } = payload || {};
+    if (!entityGuid || !scriptName) {
+      throw new Error("Invalid add script payload");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "add script");
+    if (!scriptNameToAssetIdMap) {
+      scriptNameToAssetIdMap = buildScriptNameMap();
+    }
+    if (!scriptNameToAssetIdMap.has(scriptName)) {
+      throw new Error(`Script "${scriptName}" is not defined in this project`);
+    }
+    if (entity.has(`components.script.scripts.${scriptName}`)) {
+      throw new Error(`${entity.get("name")} already has ${scriptName}`);
+    }
+
+    // The editor's own script-add fills in attribute defaults and records
+    // history; older editors without it get the same writes by hand
+    const apiEntity = getApiEntity(editor, entityGuid);
+    if (apiEntity && typeof apiEntity.addScript === "function") {
+      apiEntity.addScript(scriptName, { history: true });
       return;
     }
 
-    const { type, requestId, payload } = event.data || {};
+    const instance = {
+      enabled: true,
+      attributes: getScriptAttributeDefaults(scriptName),
+    };
+    const name = `Add ${scriptName} to ${entity.get("name")}`;
+
+    // Without a script component there is nothing else to overwrite, so
+    // the component is created whole
+    if (!entity.has("components.script")) {
+      setWithHistory(
+        editor,
+        entity,
+        "components.script",
+        {
+          enabled: true,
+          order: [scriptName],
+          scripts: { [scriptName]: instance },
+        },
+        name
+      );
+      return;
+    }
 
-    if (type === "GRAPH_SET_SELECTION") {
-      try {
-        handleSetSelection(payload);
-      } catch (e) {
-        console.error("[GraphBridge] Failed to handle set selection:", e);
-      }
+    toggleScriptEntryWithHistory(editor, entity, scriptName, {
+      instance,
+      index: -1,
+      add: true,
+      name,
+    });
+  }
+
+  function handleRemoveScriptRequest(payload) {
+    const editor = requireEditor();
+    const { entityGuid, scriptName } = payload || {};
+    if (!entityGuid || !scriptName) {
+      throw new Error("Invalid remove script payload");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "remove script");
+    const path = `components.script.scripts.${scriptName}`;
+    if (!entity.has(path)) {
+      throw new Error(`${entity.get("name")} has no ${scriptName} script`);
+    }
+
+    const apiEntity = getApiEntity(editor, entityGuid);
+    if (apiEntity && typeof apiEntity.removeScript === "function") {
+      apiEntity.removeScript(scriptName, { history: true });
       return;
     }
 
-    if (type === "GRAPH_FOCUS_ENTITY") {
-      try {
-        handleFocusRequest(payload);
-      } catch (e) {
-        console.error("[GraphBridge] Failed to handle focus request:", e);
+    const order = entity.get("components.script.order");
+    toggleScriptEntryWithHistory(editor, entity, scriptName, {
+      // Copied so undo restores the instance as it was when removed
+      instance: cloneValue(entity.get(path)),
+      index: Array.isArray(order) ? order.indexOf(scriptName) : -1,
+      add: false,
+      name: `Remove ${scriptName} from ${entity.get("name")}`,
+    });
+  }
+
+  function handleScriptOrderUpdate(payload) {
+    const editor = requireEditor();
+    const { entityGuid, order } = payload || {};
+    if (
+      !entityGuid ||
+      !Array.isArray(order) ||
+      !order.every((name) => typeof name === "string")
+    ) {
+      throw new Error("Invalid script order payload");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "reorder scripts");
+    const scripts = entity.get("components.script.scripts") || {};
+    const scriptNames = Object.keys(scripts);
+    // Only a permutation of the entity's scripts is a valid order
+    if (
+      order.length !== scriptNames.length ||
+      scriptNames.some((name) => !order.includes(name))
+    ) {
+      throw new Error("Script order does not match the entity's scripts");
+    }
+
+    setWithHistory(
+      editor,
+      entity,
+      "components.script.order",
+      order,
+      `Reorder scripts on ${entity.get("name")}`
+    );
+  }
+
+  function handleScriptsRequest(requestId) {
+    requireEditor();
+    if (!scriptNameToAssetIdMap) {
+      scriptNameToAssetIdMap = buildScriptNameMap();
+    }
+
+    const scripts = Array.from(scriptNameToAssetIdMap.entries())
+      .map(([name, assetId]) => ({ name, assetId }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    respond(requestId, { success: true, data: { scripts } });
+  }
+
+  function handleAttributeUpdate(payload) {
+    const editor = requireEditor();
+    const { entityGuid, scriptName, attributeName } = payload || {};
+
+    if (!entityGuid || !scriptName || !attributeName) {
+      throw new Error("Invalid attribute update payload");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "update attribute");
+    if (!entity.has(`components.script.scripts.${scriptName}`)) {
+      throw new Error(
+        `Cannot update attribute: script "${scriptName}" not found on ${entity.get(
+          "name"
+        )}`
+      );
+    }
+
+    const path = `components.script.scripts.${scriptName}.attributes.${attributeName}`;
+    const nextValue = Object.prototype.hasOwnProperty.call(payload, "value")
+      ? payload.value
+      : payload?.targetEntityGuid ?? null;
+
+    setWithHistory(
+      editor,
+      entity,
+      path,
+      nextValue,
+      `Update ${scriptName}.${attributeName}`
+    );
+  }
+
+  /**
+   * Writes one attribute value to the same script on several entities. All
+   * entities are checked before anything is written, and the writes share a
+   * single undo step.
+   */
+  function handleBulkAttributeUpdate(payload) {
+    const editor = requireEditor();
+    const { entityGuids, scriptName, attributeName } = payload || {};
+
+    if (
+      !Array.isArray(entityGuids) ||
+      !entityGuids.length ||
+      !scriptName ||
+      !attributeName
+    ) {
+      throw new Error("Invalid bulk attribute update payload");
+    }
+
+    requireWritePermission(editor);
+    const path = `components.script.scripts.${scriptName}.attributes.${attributeName}`;
+    const changes = entityGuids.map((entityGuid) => {
+      const entity = requireEntity(editor, entityGuid, "update attribute");
+      if (!entity.has(`components.script.scripts.${scriptName}`)) {
+        throw new Error(
+          `Cannot update attribute: script "${scriptName}" not found on ${entity.get(
+            "name"
+          )}`
+        );
       }
+      return { entity, path, value: cloneValue(payload.value) };
+    });
+
+    setManyWithHistory(
+      editor,
+      changes,
+      `Update ${scriptName}.${attributeName} on ${changes.length} entities`
+    );
+  }
+
+  /**
+   * Writes any path under an entity's components, e.g.
+   * `components.light.intensity` or `components.collision.halfExtents`.
+   */
+  function handleComponentPropertyUpdate(payload) {
+    const editor = requireEditor();
+    const { entityGuid, path } = payload || {};
+    const match = /^components\.([^.]+)\.(.+)$/.exec(path || "");
+
+    if (!entityGuid || !match) {
+      throw new Error("Invalid component property payload");
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "update component");
+    const [, componentType, property] = match;
+    if (!entity.has(`components.${componentType}`)) {
+      throw new Error(
+        `Cannot update ${property}: ${entity.get(
+          "name"
+        )} has no ${componentType} component`
+      );
+    }
+
+    setWithHistory(
+      editor,
+      entity,
+      path,
+      payload.value,
+      `Update ${componentType}.${property}`
+    );
+  }
+
+  function isVec3(value) {
+    return (
+      Array.isArray(value) &&
+      value.length === 3 &&
+      value.every((item) => typeof item === "number" && Number.isFinite(item))
+    );
+  }
+
+  const ENTITY_PROPERTY_VALIDATORS = {
+    enabled: (value) => typeof value === "boolean",
+    tags: (value) =>
+      Array.isArray(value) && value.every((tag) => typeof tag === "string"),
+    position: isVec3,
+    rotation: isVec3,
+    scale: isVec3,
+  };
+
+  function handleEntityPropertyUpdate(payload) {
+    const editor = requireEditor();
+    const { entityGuid, property, value } = payload || {};
+    const validate = ENTITY_PROPERTY_VALIDATORS[property];
+
+    if (!entityGuid || !validate) {
+      throw new Error("Invalid entity property payload");
+    }
+    if (!validate(value)) {
+      throw new Error(`Invalid value for ${property}`);
+    }
+
+    requireWritePermission(editor);
+    const entity = requireEntity(editor, entityGuid, "update entity");
+    setWithHistory(
+      editor,
+      entity,
+      property,
+      value,
+      `Update ${entity.get("name")}.${property}`
+    );
+  }
+
+  /**
+   * Runs a mutation handler and acknowledges the request with its outcome.
+   * Handlers throw (or reject) to fail; whatever they return is sent back
+   * as `data`.
+   */
+  async function runMutation(requestId, label, handler, payload) {
+    try {
+      const data = await handler(payload);
+      respond(requestId, { success: true, data: data ?? null });
+    } catch (error) {
+      console.error(`[GraphBridge] Failed to handle ${label}:`, error);
+      respond(requestId, {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  }
+
+  const MUTATION_HANDLERS = {
+    GRAPH_SET_SELECTION: ["set selection", handleSetSelection],
+    GRAPH_FOCUS_ENTITY: ["focus request", handleFocusRequest],
+    GRAPH_SET_COLLAPSE_STATE: ["collapse update", handleCollapseStateRequest],
+    GRAPH_REPARENT_ENTITY: ["reparent request", handleReparentRequest],
+    GRAPH_ADD_ENTITY: ["add entity request", handleAddEntityRequest],
+    GRAPH_RENAME_ENTITY: ["rename entity request", handleRenameEntityRequest],
+    GRAPH_DELETE_ENTITIES: [
+      "delete entities request",
+      handleDeleteEntitiesRequest,
+    ],
+    GRAPH_DUPLICATE_ENTITIES: [
+      "duplicate entities request",
+      handleDuplicateEntitiesRequest,
+    ],
+    GRAPH_ADD_SCRIPT: ["add script request", handleAddScriptRequest],
+    GRAPH_REMOVE_SCRIPT: ["remove script request", handleRemoveScriptRequest],
+    GRAPH_SET_SCRIPT_ORDER: ["script order update", handleScriptOrderUpdate],
+    GRAPH_HISTORY_STEP: ["history step request", handleHistoryStepRequest],
+    GRAPH_UPDATE_ATTRIBUTE: ["attribute update", handleAttributeUpdate],
+    GRAPH_UPDATE_ATTRIBUTES: [
+      "bulk attribute update",
+      handleBulkAttributeUpdate,
+    ],
+    GRAPH_UPDATE_ENTITY_PROPERTY: [
+      "entity property update",
+      handleEntityPropertyUpdate,
+    ],
+    GRAPH_UPDATE_COMPONENT_PROPERTY: [
+      "component property update",
+      handleComponentPropertyUpdate,
+    ],
+  };
+
+  window.addEventListener("message", (event) => {
+    if (event.source !== window) {
       return;
     }
 
-    if (type === "GRAPH_SET_COLLAPSE_STATE") {
-      try {
-        handleCollapseStateRequest(payload);
-      } catch (e) {
-        console.error("[GraphBridge] Failed to handle collapse update:", e);
-      }
+    const { type, requestId, payload } = event.data || {};
+
+    if (Object.prototype.hasOwnProperty.call(MUTATION_HANDLERS, type)) {
+      const [label, handler] = MUTATION_HANDLERS[type];
+      runMutation(requestId, label, handler, payload);
       return;
     }
 
-    if (type === "GRAPH_REPARENT_ENTITY") {
-      try {
-        handleReparentRequest(payload);
-      } catch (e) {
-        console.error("[GraphBridge] Failed to handle reparent request:", e);
-      }
+    if (type === "PC_GRAPH_PING") {
+      respond(requestId, { success: true, data: getHeartbeatPayload() });
       return;
     }
 
-    if (type === "GRAPH_ADD_ENTITY") {
-      try {
-        handleAddEntityRequest(payload);
-      } catch (e) {
-        console.error("[GraphBridge] Failed to handle add entity request:", e);
-      }
+    if (type === "GRAPH_REQUEST_EDITOR_INFO") {
+      respond(requestId, { success: true, data: getEditorInfo() });
       return;
     }
 
-    if (type === "GRAPH_UPDATE_ATTRIBUTE") {
+    if (type === "GRAPH_REQUEST_SCRIPTS") {
       try {
-        handleAttributeUpdate(payload);
+        handleScriptsRequest(requestId);
       } catch (e) {
-        console.error("[GraphBridge] Failed to handle attribute update:", e);
+        console.error("[GraphBridge] Failed to handle scripts request:", e);
+        respond(requestId, {
+          success: false,
+          error: e instanceof Error ? e.message : "Unknown error occurred",
+        });
       }
       return;
     }
@@ -1151,6 +2011,8 @@
 
     try {
       handleGraphRequest(requestId);
+      // A freshly opened graph page also needs the current undo state
+      broadcastHistoryState();
     } catch (error) {
       respond(requestId, {
         success: false,
@@ -1,71 +1,209 @@
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useState } from "react";
 
+import { BrokenReferencesPanel } from "@/components/graph-editor/BrokenReferencesPanel";
+import { ConnectionIndicator } from "@/components/graph-editor/ConnectionIndicator";
+import { EditorTabSwitcher } from "@/components/graph-editor/EditorTabSwitcher";
 import { GraphEditorCanvas } from "@/components/graph-editor/GraphEditorCanvas";
+import { HistoryPanel } from "@/components/graph-editor/HistoryPanel";
+import {
+  LintPanel,
+  type LintDock,
+} from "@/components/graph-editor/LintPanel";
+import { ScriptTableView } from "@/components/script-table/ScriptTableView";
 import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
 import type { GraphResponse, RuntimeMessage } from "@/types/messaging";
-import { sendRuntimeMessage } from "@/utils/runtime";
+import {
+  bindEditorTab,
+  getBoundEditorTabId,
+  isFromBoundEditorTab,
+  sendRuntimeMessage,
+} from "@/utils/runtime";
+import { cn } from "@/utils/cn";
+import { pingEditorBridge, startHeartbeat } from "@/utils/connection";
+import { isEditableTarget } from "@/utils/events";
 import { ReactFlowProvider } from "reactflow";
+
+const MUTATION_ERROR_DISMISS_MS = 6000;
+
+type ViewMode = "graph" | "table";
+
+const VIEW_MODES: Array<{ mode: ViewMode; label: string }> = [
+  { mode: "graph", label: "Graph" },
+  { mode: "table", label: "Table" },
+];
+
 export default function App() {
   const {
     selectedEntityName,
+    selectedCount,
+    projectName,
+    sceneName,
     isLoading,
     error,
+    mutationError,
+    clearMutationError,
+    connectionStatus,
+    connectionDetail,
+    setConnectionStatus,
     setGraphData,
+    resyncGraphData,
     setSelectedEntity,
+    setSelectedEntities,
     setLoading,
     setError,
-    upsertEntity,
-    removeEntity,
+    applyScenePatch,
     applyCollapseStateUpdate,
     focusEntity,
+    setEditorHistory,
+    stepEditorHistory,
+    loadAssets,
+    reset,
   } = useGraphEditorStore((state) => ({
     selectedEntityName: state.selectedEntityName,
+    selectedCount: state.selectedEntityGuids.length,
+    projectName: state.projectName,
+    sceneName: state.sceneName,
     isLoading: state.isLoading,
     error: state.error,
+    mutationError: state.mutationError,
+    clearMutationError: state.clearMutationError,
+    connectionStatus: state.connectionStatus,
+    connectionDetail: state.connectionDetail,
+    setConnectionStatus: state.setConnectionStatus,
     setGraphData: state.setGraphData,
+    resyncGraphData: state.resyncGraphData,
     setSelectedEntity: state.setSelectedEntity,
+    setSelectedEntities: state.setSelectedEntities,
     setLoading: state.setLoading,
     setError: state.setError,
-    upsertEntity: state.upsertEntity,
-    removeEntity: state.removeEntity,
+    applyScenePatch: state.applyScenePatch,
     applyCollapseStateUpdate: state.applyCollapseStateUpdate,
     focusEntity: state.focusEntity,
+    setEditorHistory: state.setEditorHistory,
+    stepEditorHistory: state.stepEditorHistory,
+    loadAssets: state.loadAssets,
+    reset: state.reset,
   }));
+  const [boundTabId, setBoundTabId] = useState(getBoundEditorTabId);
+  const [viewMode, setViewMode] = useState<ViewMode>("graph");
+  const [lintDock, setLintDock] = useState<LintDock | null>(null);
+
+  const requestGraphData = useCallback(
+    (options: { resync?: boolean } = {}) => {
+      setLoading(true);
+      sendRuntimeMessage<GraphResponse>({ type: "GRAPH_REQUEST_DATA" })
+        .then((response) => {
+          if (!response.success || !response.data) {
+            setError(response.error ?? "Unable to load graph data");
+            return;
+          }
+          if (options.resync) {
+            resyncGraphData(response.data);
+          } else {
+            setGraphData(response.data);
+          }
+          // Asset nodes show names and types from the project's asset list
+          loadAssets();
+        })
+        .catch((err) =>
+          setError(err instanceof Error ? err.message : "Unexpected error")
+        )
+        .finally(() => {
+          // The first request pairs an unbound page with an editor tab
+          setBoundTabId(getBoundEditorTabId());
+          setLoading(false);
+        });
+    },
+    [setGraphData, resyncGraphData, loadAssets, setLoading, setError]
+  );
+
+  const handleSelectEditorTab = useCallback(
+    (tabId: number) => {
+      bindEditorTab(tabId);
+      setBoundTabId(tabId);
+      reset();
+      requestGraphData();
+    },
+    [reset, requestGraphData]
+  );
 
-  const requestGraphData = useCallback(() => {
-    setLoading(true);
-    sendRuntimeMessage<GraphResponse>({ type: "GRAPH_REQUEST_DATA" })
-      .then((response) => {
-        if (!response.success || !response.data) {
-          setError(response.error ?? "Unable to load graph data");
-          return;
+  // The heartbeat drives the initial load as well as every resync after the
+  // editor tab reloads or the connection comes back.
+  useEffect(() => {
+    return startHeartbeat({
+      ping: pingEditorBridge,
+      onStatusChange: (status, detail) => {
+        setConnectionStatus(status, detail);
+        if (status === "disconnected" && detail) {
+          setError(detail);
         }
-        setGraphData(response.data);
-      })
-      .catch((err) =>
-        setError(err instanceof Error ? err.message : "Unexpected error")
-      )
-      .finally(() => setLoading(false));
-  }, [setGraphData, setLoading, setError]);
+      },
+      onResync: () => requestGraphData({ resync: true }),
+    });
+  }, [requestGraphData, setConnectionStatus, setError]);
 
   useEffect(() => {
-    requestGraphData();
-  }, [requestGraphData]);
+    if (!mutationError) {
+      return;
+    }
+    const timeoutId = setTimeout(
+      clearMutationError,
+      MUTATION_ERROR_DISMISS_MS
+    );
+    return () => clearTimeout(timeoutId);
+  }, [mutationError, clearMutationError]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) step through the editor's history,
+  // unless a text field should get its own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+        return;
+      }
+      if (isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        event.preventDefault();
+        stepEditorHistory(key === "y" || event.shiftKey ? "redo" : "undo");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [stepEditorHistory]);
 
   useEffect(() => {
     if (typeof chrome === "undefined" || !chrome.runtime?.onMessage) {
       return;
     }
 
-    const handler = (message: RuntimeMessage) => {
+    const handler = (
+      message: RuntimeMessage,
+      sender: chrome.runtime.MessageSender
+    ) => {
+      // Ignore pushes from editor tabs this graph page is not paired with
+      if (!isFromBoundEditorTab(sender)) {
+        return;
+      }
+
+      if (message?.type === "GRAPH_BRIDGE_READY") {
+        requestGraphData({ resync: true });
+        return;
+      }
+
       // Handle selection updates from the editor
       if (message?.type === "GRAPH_UPDATE_SELECTION") {
-        setSelectedEntity(
-          message.payload.entityGuid,
-          message.payload.entityName,
-          null,
-          { broadcast: false }
-        );
+        const { entityGuid, entityName, entityGuids } = message.payload;
+        if (entityGuids && entityGuids.length > 1) {
+          setSelectedEntities(entityGuids, { broadcast: false });
+        } else {
+          setSelectedEntity(entityGuid, entityName, null, {
+            broadcast: false,
+          });
+        }
         return;
       }
 
@@ -80,20 +218,15 @@ export default function App() {
         return;
       }
 
-      if (
-        message?.type === "GRAPH_ENTITY_ADDED" ||
-        message?.type === "GRAPH_ENTITY_UPDATED"
-      ) {
-        if (message.payload?.entity) {
-          upsertEntity(message.payload.entity);
+      if (message?.type === "GRAPH_PATCH") {
+        if (message.payload && applyScenePatch(message.payload) === "gap") {
+          requestGraphData({ resync: true });
         }
         return;
       }
 
-      if (message?.type === "GRAPH_ENTITY_REMOVED") {
-        if (message.payload?.guid) {
-          removeEntity(message.payload.guid);
-        }
+      if (message?.type === "GRAPH_HISTORY_UPDATE") {
+        setEditorHistory(message.payload);
         return;
       }
 
@@ -129,11 +262,13 @@ export default function App() {
   }, [
     setGraphData,
     setSelectedEntity,
+    setSelectedEntities,
     setError,
-    upsertEntity,
-    removeEntity,
+    applyScenePatch,
     applyCollapseStateUpdate,
     focusEntity,
+    setEditorHistory,
+    requestGraphData,
   ]);
 
   return (
@@ -143,18 +278,72 @@ export default function App() {
           <p className="text-lg font-bold">PlayCanvas Visual Editor</p>
           <p className="text-sm text-pc-text-secondary">
             {selectedEntityName
-              ? `Focused on: ${selectedEntityName}`
+              ? `Focused on: ${selectedEntityName}${
+                  selectedCount > 1 ? ` (+${selectedCount - 1} more)` : ""
+                }`
               : "Select an entity in the editor to see its name here"}
           </p>
         </div>
-        <button
-          className="rounded-lg bg-pc-dark px-4 py-2 text-sm font-bold text-pc-text-primary hover:bg-pc-darker transition-colors"
-          onClick={requestGraphData}
-        >
-          Refresh
-        </button>
+        <div className="flex items-center gap-3">
+          <div
+            role="tablist"
+            className="flex rounded-lg bg-pc-dark p-0.5 text-sm font-bold"
+          >
+            {VIEW_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                role="tab"
+                aria-selected={viewMode === mode}
+                onClick={() => setViewMode(mode)}
+                className={cn(
+                  "rounded-md px-3 py-1.5 transition-colors",
+                  viewMode === mode
+                    ? "bg-pc-darkest text-pc-text-active"
+                    : "text-pc-text-secondary hover:text-pc-text-primary"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setLintDock((dock) => (dock ? null : "right"))}
+            className={cn(
+              "rounded-lg bg-pc-dark px-3 py-2 text-sm font-bold transition-colors hover:bg-pc-darker",
+              lintDock ? "text-pc-text-active" : "text-pc-text-primary"
+            )}
+            aria-pressed={!!lintDock}
+          >
+            Lint
+          </button>
+          <BrokenReferencesPanel />
+          <HistoryPanel />
+          <ConnectionIndicator
+            status={connectionStatus}
+            detail={connectionDetail}
+          />
+          <EditorTabSwitcher
+            boundTabId={boundTabId}
+            projectName={projectName}
+            sceneName={sceneName}
+            onSelectTab={handleSelectEditorTab}
+          />
+          <button
+            className="rounded-lg bg-pc-dark px-4 py-2 text-sm font-bold text-pc-text-primary hover:bg-pc-darker transition-colors"
+            onClick={() => requestGraphData()}
+          >
+            Refresh
+          </button>
+        </div>
       </header>
-      <main className="relative flex flex-1 min-h-0 bg-pc-darker">
+      <main
+        className={cn(
+          "relative flex flex-1 min-h-0 bg-pc-darker",
+          lintDock === "bottom" && "flex-col"
+        )}
+      >
         {isLoading && (
           <div className="absolute inset-0 flex items-center justify-center bg-pc-darkest/80">
             <span className="text-sm uppercase tracking-[0.4em] text-pc-text-secondary">
@@ -167,11 +356,38 @@ export default function App() {
             {error}
           </div>
         )}
-        <div className="flex-1 min-h-0">
-          <ReactFlowProvider>
-            <GraphEditorCanvas />
-          </ReactFlowProvider>
+        {mutationError && (
+          <div
+            role="alert"
+            className="z-50 absolute left-1/2 top-4 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-pc-error/90 px-4 py-2 text-xs font-bold text-pc-text-primary shadow-lg"
+          >
+            <span>{mutationError}</span>
+            <button
+              type="button"
+              onClick={clearMutationError}
+              className="rounded px-1 text-pc-text-primary/80 hover:text-pc-text-primary"
+              aria-label="Dismiss error"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        <div className="flex-1 min-h-0 min-w-0">
+          {viewMode === "table" ? (
+            <ScriptTableView />
+          ) : (
+            <ReactFlowProvider>
+              <GraphEditorCanvas />
+            </ReactFlowProvider>
+          )}
         </div>
+        {lintDock && (
+          <LintPanel
+            dock={lintDock}
+            onDockChange={setLintDock}
+            onClose={() => setLintDock(null)}
+          />
+        )}
       </main>
     </div>
   );
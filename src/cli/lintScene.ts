@@ -0,0 +1,147 @@
+import { readFileSync } from "node:fs";
+
+import type { SceneGraphPayload } from "@/types/messaging";
+import { BUILT_IN_LINT_RULES } from "@/utils/lintRules";
+import {
+  collectScriptDefinitions,
+  sceneExportToPayload,
+} from "@/utils/sceneExport";
+import {
+  runSceneLint,
+  type LintIssue,
+  type LintRuleSettings,
+} from "@/utils/sceneLint";
+
+const USAGE = `Usage: lint-scene <scene.json> [options]
+
+Lints a scene exported from PlayCanvas with the graph editor's rules.
+
+Options:
+  --assets <file>    Exported assets; script assets supply attribute definitions
+  --format <format>  "text" (default) or "json"
+  --disable <ids>    Comma-separated rule ids to skip
+  --enable <ids>     Comma-separated rule ids to run even if off by default
+  --help             Show this message
+
+Exits with 1 when any error is reported, 2 when the input cannot be read.`;
+
+type CliOptions = {
+  scenePath: string;
+  assetsPath: string | null;
+  format: "text" | "json";
+  settings: LintRuleSettings;
+};
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    scenePath: "",
+    assetsPath: null,
+    format: "text",
+    settings: {},
+  };
+  const takeValue = (index: number, flag: string) => {
+    const value = args[index + 1];
+    if (!value || value.startsWith("--")) {
+      throw new Error(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    switch (arg) {
+      case "--assets":
+        options.assetsPath = takeValue(index++, arg);
+        break;
+      case "--format": {
+        const format = takeValue(index++, arg);
+        if (format !== "text" && format !== "json") {
+          throw new Error(`Unknown format "${format}"`);
+        }
+        options.format = format;
+        break;
+      }
+      case "--disable":
+      case "--enable":
+        takeValue(index++, arg)
+          .split(",")
+          .forEach((ruleId) => {
+            options.settings[ruleId.trim()] = arg === "--enable";
+          });
+        break;
+      default:
+        if (arg.startsWith("--") || options.scenePath) {
+          throw new Error(`Unexpected argument "${arg}"`);
+        }
+        options.scenePath = arg;
+    }
+  }
+
+  if (!options.scenePath) {
+    throw new Error("Missing scene file");
+  }
+  return options;
+};
+
+const readJson = (path: string) => JSON.parse(readFileSync(path, "utf8"));
+
+const formatText = (
+  issues: LintIssue[],
+  entityNames: Record<string, string>
+) => {
+  if (!issues.length) {
+    return "No issues found.";
+  }
+  const lines = issues.map(
+    (issue) =>
+      `${issue.severity.padEnd(7)} ${issue.ruleId.padEnd(24)} ${
+        entityNames[issue.entityGuid] ?? issue.entityGuid
+      }: ${issue.message}`
+  );
+  const count = (severity: LintIssue["severity"]) =>
+    issues.filter((issue) => issue.severity === severity).length;
+  lines.push(
+    "",
+    `${count("error")} errors, ${count("warning")} warnings, ${count(
+      "info"
+    )} info`
+  );
+  return lines.join("\n");
+};
+
+function main(args: string[]): number {
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let options: CliOptions;
+  let payload: SceneGraphPayload;
+  try {
+    options = parseArgs(args);
+    const definitions = options.assetsPath
+      ? collectScriptDefinitions(readJson(options.assetsPath))
+      : {};
+    payload = sceneExportToPayload(readJson(options.scenePath), definitions);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(`\n${USAGE}`);
+    return 2;
+  }
+
+  const issues = runSceneLint(payload, BUILT_IN_LINT_RULES, options.settings);
+  if (options.format === "json") {
+    console.log(JSON.stringify({ issues }, null, 2));
+  } else {
+    const entityNames = Object.fromEntries(
+      Object.values(payload.entities).map((entity) => [
+        entity.guid,
+        entity.name,
+      ])
+    );
+    console.log(formatText(issues, entityNames));
+  }
+  return issues.some((issue) => issue.severity === "error") ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
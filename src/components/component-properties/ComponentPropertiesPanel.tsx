@@ -0,0 +1,67 @@
+import { memo, useMemo } from "react";
+
+import { AttributeInput } from "@/components/script-attributes/ScriptAttributesPanel";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import type { ComponentPayload } from "@/types/messaging";
+import { getEditableComponentProperties } from "./utils/componentSchemas";
+
+type ComponentPropertiesPanelProps = {
+  entityGuid: string;
+  componentType: string;
+  component: ComponentPayload;
+};
+
+export const ComponentPropertiesPanel = memo(
+  ({ entityGuid, componentType, component }: ComponentPropertiesPanelProps) => {
+    const updateComponentProperty = useGraphEditorStore(
+      (state) => state.updateComponentProperty
+    );
+    const entities = useGraphEditorStore((state) => state.entities);
+
+    const properties = useMemo(
+      () => getEditableComponentProperties(componentType, component),
+      [componentType, component]
+    );
+
+    if (properties.length === 0) {
+      return (
+        <p className="text-xs italic text-pc-text-dark">
+          No editable properties for this component.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {properties.map(([property, definition]) => (
+          <div
+            key={property}
+            className="rounded-2xl border border-pc-border-primary/50 bg-pc-dark p-3 text-sm text-pc-text-primary"
+          >
+            <p className="font-semibold mb-2">{property}</p>
+            <AttributeInput
+              attribute={{
+                type: definition.type,
+                value: component[property],
+                definition,
+              }}
+              definition={definition}
+              value={component[property]}
+              onChange={(value) =>
+                updateComponentProperty(
+                  entityGuid,
+                  `components.${componentType}.${property}`,
+                  value
+                )
+              }
+              entities={entities}
+              entityGuid={entityGuid}
+              attributeKey={property}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  }
+);
+ComponentPropertiesPanel.displayName = "ComponentPropertiesPanel";
@@ -0,0 +1,262 @@
+import type {
+  ComponentPayload,
+  ScriptAttributeDefinition,
+} from "@/types/messaging";
+
+type ComponentSchema = Record<string, ScriptAttributeDefinition>;
+
+const enumOf = (
+  options: Record<string, string | number | boolean>
+): ScriptAttributeDefinition["enum"] => ({
+  options,
+  order: Object.keys(options),
+});
+
+const PRIMITIVE_SHAPES = {
+  Asset: "asset",
+  Box: "box",
+  Capsule: "capsule",
+  Sphere: "sphere",
+  Cylinder: "cylinder",
+  Cone: "cone",
+  Plane: "plane",
+};
+
+/**
+ * Editable properties of the built-in PlayCanvas components. Definitions use
+ * the script attribute shape so the script attribute TYPE_HANDLERS can render
+ * them. Properties missing here are still editable when their type can be
+ * inferred from the value (see `getComponentPropertyDefinition`).
+ */
+const COMPONENT_SCHEMAS: Record<string, ComponentSchema> = {
+  light: {
+    type: {
+      type: "string",
+      enum: enumOf({ Directional: "directional", Omni: "omni", Spot: "spot" }),
+    },
+    color: { type: "rgb" },
+    intensity: { type: "number", min: 0, max: 32, step: 0.1 },
+    range: { type: "number", min: 0 },
+    castShadows: { type: "boolean" },
+    innerConeAngle: { type: "number", min: 0, max: 90 },
+    outerConeAngle: { type: "number", min: 0, max: 90 },
+    shadowDistance: { type: "number", min: 0 },
+  },
+  collision: {
+    type: {
+      type: "string",
+      enum: enumOf({
+        Box: "box",
+        Sphere: "sphere",
+        Capsule: "capsule",
+        Cylinder: "cylinder",
+        Cone: "cone",
+        Mesh: "mesh",
+        Compound: "compound",
+      }),
+    },
+    halfExtents: { type: "vec3" },
+    radius: { type: "number", min: 0 },
+    height: { type: "number", min: 0 },
+    axis: { type: "number", enum: enumOf({ X: 0, Y: 1, Z: 2 }) },
+    linearOffset: { type: "vec3" },
+    angularOffset: { type: "vec3" },
+  },
+  rigidbody: {
+    type: {
+      type: "string",
+      enum: enumOf({
+        Static: "static",
+        Dynamic: "dynamic",
+        Kinematic: "kinematic",
+      }),
+    },
+    mass: { type: "number", min: 0 },
+    friction: { type: "number", min: 0, max: 1, step: 0.01 },
+    rollingFriction: { type: "number", min: 0 },
+    restitution: { type: "number", min: 0, max: 1, step: 0.01 },
+    linearDamping: { type: "number", min: 0, max: 1, step: 0.01 },
+    angularDamping: { type: "number", min: 0, max: 1, step: 0.01 },
+    linearFactor: { type: "vec3" },
+    angularFactor: { type: "vec3" },
+  },
+  camera: {
+    projection: {
+      type: "number",
+      enum: enumOf({ Perspective: 0, Orthographic: 1 }),
+    },
+    fov: { type: "number", min: 0, max: 180 },
+    orthoHeight: { type: "number", min: 0 },
+    nearClip: { type: "number", min: 0 },
+    farClip: { type: "number", min: 0 },
+    priority: { type: "number" },
+    clearColorBuffer: { type: "boolean" },
+    clearColor: { type: "rgba" },
+  },
+  render: {
+    type: { type: "string", enum: enumOf(PRIMITIVE_SHAPES) },
+    asset: { type: "asset", assetType: "render" },
+    castShadows: { type: "boolean" },
+    receiveShadows: { type: "boolean" },
+    lightmapped: { type: "boolean" },
+  },
+  model: {
+    type: { type: "string", enum: enumOf(PRIMITIVE_SHAPES) },
+    asset: { type: "asset", assetType: "model" },
+    castShadows: { type: "boolean" },
+    receiveShadows: { type: "boolean" },
+    lightmapped: { type: "boolean" },
+  },
+  sound: {
+    volume: { type: "number", min: 0, max: 1, step: 0.01 },
+    pitch: { type: "number", min: 0 },
+    positional: { type: "boolean" },
+    refDistance: { type: "number", min: 0 },
+    maxDistance: { type: "number", min: 0 },
+    rollOffFactor: { type: "number", min: 0 },
+    distanceModel: {
+      type: "string",
+      enum: enumOf({
+        Linear: "linear",
+        Inverse: "inverse",
+        Exponential: "exponential",
+      }),
+    },
+  },
+  element: {
+    type: {
+      type: "string",
+      enum: enumOf({ Group: "group", Image: "image", Text: "text" }),
+    },
+    width: { type: "number" },
+    height: { type: "number" },
+    pivot: { type: "vec2" },
+    anchor: { type: "vec4" },
+    text: { type: "string" },
+    fontSize: { type: "number", min: 0 },
+    fontAsset: { type: "asset", assetType: "font" },
+    textureAsset: { type: "asset", assetType: "texture" },
+    spriteAsset: { type: "asset", assetType: "sprite" },
+    color: { type: "rgb" },
+    opacity: { type: "number", min: 0, max: 1, step: 0.01 },
+    useInput: { type: "boolean" },
+  },
+  sprite: {
+    type: {
+      type: "string",
+      enum: enumOf({ Simple: "simple", Animated: "animated" }),
+    },
+    spriteAsset: { type: "asset", assetType: "sprite" },
+    color: { type: "rgb" },
+    opacity: { type: "number", min: 0, max: 1, step: 0.01 },
+    flipX: { type: "boolean" },
+    flipY: { type: "boolean" },
+    speed: { type: "number" },
+  },
+  screen: {
+    screenSpace: { type: "boolean" },
+    referenceResolution: { type: "vec2" },
+    scaleMode: {
+      type: "string",
+      enum: enumOf({ None: "none", Blend: "blend" }),
+    },
+    scaleBlend: { type: "number", min: 0, max: 1, step: 0.01 },
+    priority: { type: "number" },
+  },
+  particlesystem: {
+    numParticles: { type: "number", min: 1 },
+    lifetime: { type: "number", min: 0 },
+    rate: { type: "number", min: 0 },
+    rate2: { type: "number", min: 0 },
+    loop: { type: "boolean" },
+    autoPlay: { type: "boolean" },
+    preWarm: { type: "boolean" },
+  },
+  button: {
+    active: { type: "boolean" },
+    imageEntity: { type: "entity" },
+    transitionMode: {
+      type: "number",
+      enum: enumOf({ Tint: 0, "Sprite Change": 1 }),
+    },
+  },
+  layoutgroup: {
+    orientation: {
+      type: "number",
+      enum: enumOf({ Horizontal: 0, Vertical: 1 }),
+    },
+    spacing: { type: "vec2" },
+    padding: { type: "vec4" },
+    alignment: { type: "vec2" },
+  },
+  scrollview: {
+    horizontal: { type: "boolean" },
+    vertical: { type: "boolean" },
+    scrollMode: {
+      type: "number",
+      enum: enumOf({ Clamp: 0, Bounce: 1, Infinite: 2 }),
+    },
+    contentEntity: { type: "entity" },
+    viewportEntity: { type: "entity" },
+  },
+};
+
+const inferPropertyType = (value: unknown): string | null => {
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "string") return "string";
+  if (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    value.length <= 4 &&
+    value.every((item) => typeof item === "number")
+  ) {
+    return `vec${value.length}`;
+  }
+  return null;
+};
+
+/**
+ * Returns the definition used to edit a component property, or null when the
+ * property should not be edited from the graph (nested objects, lists of
+ * assets, ...).
+ */
+export const getComponentPropertyDefinition = (
+  componentType: string,
+  property: string,
+  value: unknown
+): ScriptAttributeDefinition | null => {
+  const known = COMPONENT_SCHEMAS[componentType]?.[property];
+  if (known) {
+    return known;
+  }
+  const inferred = inferPropertyType(value);
+  return inferred ? { type: inferred } : null;
+};
+
+/**
+ * Lists the editable properties of a component: schema properties first, in
+ * schema order, then any other property whose type can be inferred.
+ * `enabled` is left to the component toggle.
+ */
+export const getEditableComponentProperties = (
+  componentType: string,
+  component: ComponentPayload
+): Array<[string, ScriptAttributeDefinition]> => {
+  const schemaKeys = Object.keys(COMPONENT_SCHEMAS[componentType] || {});
+  const otherKeys = Object.keys(component)
+    .filter((key) => !schemaKeys.includes(key))
+    .sort((a, b) => a.localeCompare(b));
+
+  return [...schemaKeys, ...otherKeys]
+    .filter(
+      (key) =>
+        key !== "enabled" &&
+        Object.prototype.hasOwnProperty.call(component, key)
+    )
+    .map((key) => [
+      key,
+      getComponentPropertyDefinition(componentType, key, component[key]),
+    ])
+    .filter((entry): entry is [string, ScriptAttributeDefinition] => !!entry[1]);
+};
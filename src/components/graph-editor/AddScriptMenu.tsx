@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+import { Input } from "@/components/ui/Input";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import type { ScriptSummary } from "@/types/messaging";
+import {
+  stopReactFlowEvent,
+  stopReactFlowEventWithPreventDefault,
+  withStopPropagation,
+} from "@/utils/events";
+
+type AddScriptMenuProps = {
+  entityGuid: string;
+  /**
+   * Scripts already on the entity; they are not offered again.
+   */
+  existingScripts: string[];
+  onClose: () => void;
+};
+
+export const AddScriptMenu: React.FC<AddScriptMenuProps> = ({
+  entityGuid,
+  existingScripts,
+  onClose,
+}) => {
+  const getScripts = useGraphEditorStore((state) => state.getScripts);
+  const addScript = useGraphEditorStore((state) => state.addScript);
+  const [scripts, setScripts] = useState<ScriptSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const panelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getScripts()
+      .then((loaded) => {
+        if (!cancelled) setScripts(loaded);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getScripts]);
+
+  // Click outside or ESC closes the menu
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(event.target as Node)
+      ) {
+        onClose();
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("keydown", handleEscape);
+    };
+  }, [onClose]);
+
+  const matches = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return scripts.filter(
+      (script) =>
+        !existingScripts.includes(script.name) &&
+        (!normalizedQuery ||
+          script.name.toLowerCase().includes(normalizedQuery))
+    );
+  }, [scripts, existingScripts, query]);
+
+  return (
+    <div
+      ref={panelRef}
+      className="nodrag nowheel absolute right-0 top-full z-40 mt-2 w-72 rounded-2xl border border-pc-border-primary/70 bg-pc-darkest/95 p-3 shadow-2xl backdrop-blur"
+      onPointerDownCapture={stopReactFlowEvent}
+      onMouseDown={stopReactFlowEvent}
+    >
+      <div className="space-y-3">
+        <Input
+          type="text"
+          value={query}
+          autoFocus
+          onChange={(val) => setQuery(String(val))}
+          placeholder="Search scripts by name"
+          deferUpdate={false}
+          className="w-full text-pc-text-primary"
+        />
+        <div className="max-h-60 overflow-y-scroll overscroll-contain rounded-xl border border-pc-border-primary/30">
+          {matches.length ? (
+            matches.map((script) => (
+              <button
+                type="button"
+                key={script.name}
+                onPointerDownCapture={stopReactFlowEventWithPreventDefault}
+                onMouseUpCapture={stopReactFlowEventWithPreventDefault}
+                onClick={withStopPropagation(() => {
+                  addScript(entityGuid, script.name);
+                  onClose();
+                })}
+                className="flex w-full items-center px-3 py-2 text-left text-sm text-pc-text-primary transition hover:bg-pc-dark"
+              >
+                <span className="truncate">{script.name}</span>
+              </button>
+            ))
+          ) : (
+            <p className="py-4 text-center text-xs text-pc-text-dark">
+              {isLoading
+                ? "Loading scripts..."
+                : scripts.length === 0
+                ? "No scripts in this project."
+                : "No scripts found."}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
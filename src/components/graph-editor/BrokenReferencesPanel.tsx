@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { EntityPicker } from "@/components/script-attributes/EntityPicker";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import {
+  findBrokenReferences,
+  findEntityByName,
+  getBrokenReferenceKey,
+  type ReferenceFix,
+} from "@/utils/brokenReferences";
+import { cn } from "@/utils/cn";
+import { getEntitySlotHandleId } from "@/utils/entityReferences";
+
+/**
+ * Scene-wide report of entity attributes pointing at entities that no longer
+ * exist, with bulk fixes for the checked rows: clear them, retarget them to
+ * a picked entity, or retarget each to the entity sharing its name.
+ */
+export const BrokenReferencesPanel = () => {
+  const entities = useGraphEditorStore((state) => state.entities);
+  const removedEntityNames = useGraphEditorStore(
+    (state) => state.removedEntityNames
+  );
+  const focusEntity = useGraphEditorStore((state) => state.focusEntity);
+  const repairBrokenReferences = useGraphEditorStore(
+    (state) => state.repairBrokenReferences
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [retargetGuid, setRetargetGuid] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  const references = findBrokenReferences(entities);
+  const selected = useMemo(
+    () =>
+      references.filter((reference) =>
+        checked.has(getBrokenReferenceKey(reference))
+      ),
+    [references, checked]
+  );
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+    };
+  }, [isOpen]);
+
+  const applyFixes = async (fixes: ReferenceFix[], notes: string[] = []) => {
+    const response = await repairBrokenReferences(fixes);
+    setChecked(new Set());
+    setStatus(
+      [
+        response.success
+          ? `Fixed ${fixes.length} reference${fixes.length === 1 ? "" : "s"}.`
+          : "Some references could not be fixed.",
+        ...notes,
+      ].join(" ")
+    );
+  };
+
+  // Only the missing entity's own name is matched on, and it is only known
+  // for entities removed while the graph was open
+  const matchByName = () => {
+    const fixes: ReferenceFix[] = [];
+    let unknownName = 0;
+    let noMatch = 0;
+    selected.forEach((reference) => {
+      const name = removedEntityNames[reference.targetGuid];
+      if (!name) {
+        unknownName++;
+        return;
+      }
+      const targetGuid = findEntityByName(entities, name);
+      if (targetGuid) {
+        fixes.push({ reference, targetGuid });
+      } else {
+        noMatch++;
+      }
+    });
+    const notes: string[] = [];
+    if (noMatch) {
+      notes.push(`${noMatch} had no entity with a matching name.`);
+    }
+    if (unknownName) {
+      notes.push(
+        `${unknownName} skipped because the missing entity's name is unknown; retarget them to a picked entity instead.`
+      );
+    }
+    applyFixes(fixes, notes);
+  };
+
+  const toggleChecked = (key: string) => {
+    setChecked((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const allChecked =
+    references.length > 0 && selected.length === references.length;
+  const actionClass =
+    "rounded-md border border-pc-border-primary/60 px-2 py-1 text-xs font-semibold text-pc-text-secondary transition hover:border-pc-text-active hover:text-pc-text-active disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen((open) => !open);
+          setStatus(null);
+        }}
+        className={cn(
+          "rounded-lg bg-pc-dark px-3 py-2 text-sm font-bold transition-colors hover:bg-pc-darker",
+          references.length ? "text-pc-error" : "text-pc-text-primary"
+        )}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        Broken refs ({references.length})
+      </button>
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Broken references"
+          className="absolute right-0 top-full z-50 mt-2 w-[480px] rounded-md border border-pc-border-primary bg-pc-darker p-3 text-sm shadow-lg"
+        >
+          {references.length === 0 ? (
+            <p className="text-xs text-pc-text-dark">
+              Every entity reference points at an entity in the scene.
+            </p>
+          ) : (
+            <>
+              <label className="mb-2 flex items-center gap-2 text-xs text-pc-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={allChecked}
+                  onChange={() =>
+                    setChecked(
+                      allChecked
+                        ? new Set()
+                        : new Set(references.map(getBrokenReferenceKey))
+                    )
+                  }
+                />
+                {references.length} broken reference
+                {references.length === 1 ? "" : "s"}
+              </label>
+              <ul className="max-h-72 overflow-y-auto rounded border border-pc-border-primary/40">
+                {references.map((reference) => {
+                  const key = getBrokenReferenceKey(reference);
+                  const removedName = removedEntityNames[reference.targetGuid];
+                  return (
+                    <li
+                      key={key}
+                      className="flex items-start gap-2 border-b border-pc-border-primary/20 px-2 py-1.5 last:border-b-0"
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={checked.has(key)}
+                        onChange={() => toggleChecked(key)}
+                        aria-label={`Select ${key}`}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <button
+                          type="button"
+                          onClick={() => focusEntity(reference.sourceGuid)}
+                          className="truncate font-semibold text-pc-text-primary hover:text-pc-text-active"
+                        >
+                          {entities[reference.sourceGuid]?.name ??
+                            reference.sourceGuid}
+                        </button>
+                        <p className="truncate text-xs text-pc-text-dark">
+                          {reference.scriptName}.
+                          {getEntitySlotHandleId(
+                            reference.attributeName,
+                            reference.path
+                          )}{" "}
+                          → <span className="text-pc-error">missing</span>{" "}
+                          {removedName
+                            ? `"${removedName}"`
+                            : reference.targetGuid}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="mt-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    disabled={!selected.length}
+                    onClick={() =>
+                      applyFixes(
+                        selected.map((reference) => ({
+                          reference,
+                          targetGuid: null,
+                        }))
+                      )
+                    }
+                    className={actionClass}
+                  >
+                    Clear
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!selected.length}
+                    onClick={matchByName}
+                    className={actionClass}
+                    title="Retarget each to the one entity with the missing entity's name"
+                  >
+                    Match by name
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!selected.length || !retargetGuid}
+                    onClick={() =>
+                      applyFixes(
+                        selected.map((reference) => ({
+                          reference,
+                          targetGuid: retargetGuid,
+                        }))
+                      )
+                    }
+                    className={actionClass}
+                  >
+                    Retarget to picked entity
+                  </button>
+                </div>
+                <EntityPicker
+                  value={retargetGuid}
+                  entities={entities}
+                  entityGuid=""
+                  onChange={(value) =>
+                    setRetargetGuid(value ? String(value) : null)
+                  }
+                />
+              </div>
+            </>
+          )}
+          {status && (
+            <p role="status" className="mt-2 text-xs text-pc-text-secondary">
+              {status}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import type { ConnectionStatus } from "@/utils/connection";
+import { cn } from "@/utils/cn";
+
+interface ConnectionIndicatorProps {
+  status: ConnectionStatus;
+  detail: string | null;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: "Connecting",
+  connected: "Connected",
+  "editor-loading": "Editor loading",
+  disconnected: "Disconnected",
+};
+
+const STATUS_DOT_CLASSES: Record<ConnectionStatus, string> = {
+  connecting: "bg-pc-text-dark animate-pulse",
+  connected: "bg-emerald-400",
+  "editor-loading": "bg-amber-400 animate-pulse",
+  disconnected: "bg-pc-error",
+};
+
+export const ConnectionIndicator = ({
+  status,
+  detail,
+}: ConnectionIndicatorProps) => {
+  return (
+    <div
+      role="status"
+      title={detail ?? STATUS_LABELS[status]}
+      className="flex items-center gap-2 rounded-lg border border-pc-border-primary/60 bg-pc-dark px-3 py-2 text-xs text-pc-text-secondary"
+    >
+      <span
+        className={cn(
+          "inline-block h-2 w-2 rounded-full",
+          STATUS_DOT_CLASSES[status]
+        )}
+      />
+      <span>{STATUS_LABELS[status]}</span>
+    </div>
+  );
+};
@@ -1,11 +1,16 @@
-import React, { useRef, useLayoutEffect } from "react";
+import React, { useRef, useLayoutEffect, useState } from "react";
 import { cn } from "@/utils/cn";
 
 interface ContextMenuProps {
   x: number;
   y: number;
   targetNodeId: string | null;
-  onAddEntity: () => void;
+  // The scene root can't be deleted, so it gets no Delete item
+  canDeleteEntity: boolean;
+  onAddEntity: (name: string) => void;
+  onDuplicateEntity: () => void;
+  onDeleteEntity: () => void;
+  onResetLayout: () => void;
   onClose: () => void;
 }
 
@@ -13,10 +18,16 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   x,
   y,
   targetNodeId,
+  canDeleteEntity,
   onAddEntity,
+  onDuplicateEntity,
+  onDeleteEntity,
+  onResetLayout,
   onClose,
 }) => {
   const ref = useRef<HTMLDivElement>(null);
+  // Adding an entity first asks for its name inside the menu
+  const [pendingName, setPendingName] = useState<string | null>(null);
 
   useLayoutEffect(() => {
     // Click outside handler
@@ -40,15 +51,85 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         "flex flex-col py-1"
       )}
     >
-      <button
-        className="flex w-full items-center px-3 py-2 text-left text-sm text-pc-text-primary hover:bg-pc-primary hover:text-white"
-        onClick={() => {
-          onAddEntity();
-          onClose();
-        }}
-      >
-        {targetNodeId ? "Add Child Entity" : "Add Entity"}
-      </button>
+      {pendingName !== null ? (
+        <form
+          className="flex flex-col gap-2 px-3 py-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onAddEntity(pendingName.trim() || "New Entity");
+            onClose();
+          }}
+        >
+          <label
+            className="text-xs text-pc-text-dark"
+            htmlFor="pc-ge-new-entity-name"
+          >
+            {targetNodeId ? "Child entity name" : "Entity name"}
+          </label>
+          <input
+            id="pc-ge-new-entity-name"
+            type="text"
+            value={pendingName}
+            autoFocus
+            onFocus={(event) => event.target.select()}
+            onChange={(event) => setPendingName(event.target.value)}
+            onKeyDown={(event) => {
+              event.stopPropagation();
+              if (event.key === "Escape") {
+                onClose();
+              }
+            }}
+            className="h-7 rounded-md border border-pc-border-primary bg-pc-darkest px-2 text-sm text-pc-text-primary outline-none focus:ring-2 focus:ring-pc-text-active"
+          />
+          <button
+            type="submit"
+            className="rounded-md bg-pc-primary px-3 py-1 text-sm text-pc-text-primary hover:text-white"
+          >
+            Create
+          </button>
+        </form>
+      ) : (
+        <button
+          className="flex w-full items-center px-3 py-2 text-left text-sm text-pc-text-primary hover:bg-pc-primary hover:text-white"
+          onClick={() => setPendingName("New Entity")}
+        >
+          {targetNodeId ? "Add Child Entity" : "Add Entity"}
+        </button>
+      )}
+      {pendingName === null && targetNodeId && (
+        <button
+          className="flex w-full items-center justify-between gap-4 px-3 py-2 text-left text-sm text-pc-text-primary hover:bg-pc-primary hover:text-white"
+          onClick={() => {
+            onDuplicateEntity();
+            onClose();
+          }}
+        >
+          <span>Duplicate Entity</span>
+          <span className="text-xs text-pc-text-dark">Ctrl+D</span>
+        </button>
+      )}
+      {pendingName === null && (
+        <button
+          className="flex w-full items-center px-3 py-2 text-left text-sm text-pc-text-primary hover:bg-pc-primary hover:text-white"
+          onClick={() => {
+            onResetLayout();
+            onClose();
+          }}
+        >
+          {targetNodeId ? "Reset Subtree Layout" : "Reset Layout"}
+        </button>
+      )}
+      {pendingName === null && targetNodeId && canDeleteEntity && (
+        <button
+          className="flex w-full items-center px-3 py-2 text-left text-sm text-pc-error hover:bg-pc-primary hover:text-white"
+          onClick={() => {
+            onDeleteEntity();
+            onClose();
+          }}
+        >
+          Delete Entity
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { EditorTabInfo } from "@/types/messaging";
+import { listEditorTabs } from "@/utils/runtime";
+import { cn } from "@/utils/cn";
+
+interface EditorTabSwitcherProps {
+  boundTabId: number | null;
+  projectName: string | null;
+  sceneName: string | null;
+  onSelectTab: (tabId: number) => void;
+}
+
+const describeTab = (tab: EditorTabInfo) => {
+  const project = tab.projectName ?? tab.projectId;
+  const scene = tab.sceneName ?? tab.sceneId;
+  if (project == null && scene == null) {
+    return tab.title;
+  }
+  return `${project ?? "Unknown project"} / ${scene ?? "Unknown scene"}`;
+};
+
+export const EditorTabSwitcher = ({
+  boundTabId,
+  projectName,
+  sceneName,
+  onSelectTab,
+}: EditorTabSwitcherProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tabs, setTabs] = useState<EditorTabInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  const loadTabs = useCallback(() => {
+    setIsLoading(true);
+    setLoadError(null);
+    listEditorTabs()
+      .then(setTabs)
+      .catch((err) =>
+        setLoadError(err instanceof Error ? err.message : "Unexpected error")
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    loadTabs();
+
+    const handleClick = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+    };
+  }, [isOpen, loadTabs]);
+
+  const boundLabel =
+    projectName || sceneName
+      ? `${projectName ?? "Unknown project"} / ${sceneName ?? "Unknown scene"}`
+      : boundTabId !== null
+      ? `Editor tab #${boundTabId}`
+      : "No editor tab paired";
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-2 rounded-lg border border-pc-border-primary/60 bg-pc-dark px-3 py-2 text-sm text-pc-text-primary hover:bg-pc-darker transition-colors"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="text-[11px] uppercase tracking-wide text-pc-text-dark">
+          Bound to
+        </span>
+        <span className="max-w-[280px] truncate font-semibold">
+          {boundLabel}
+        </span>
+        <span className="text-xs">▾</span>
+      </button>
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute right-0 z-50 mt-2 min-w-[320px] overflow-hidden rounded-md border border-pc-border-primary bg-pc-darker py-1 shadow-lg"
+        >
+          {isLoading && (
+            <p className="px-3 py-2 text-xs text-pc-text-dark">
+              Looking for editor tabs…
+            </p>
+          )}
+          {!isLoading && loadError && (
+            <p className="px-3 py-2 text-xs text-pc-error">{loadError}</p>
+          )}
+          {!isLoading && !loadError && tabs.length === 0 && (
+            <p className="px-3 py-2 text-xs text-pc-text-dark">
+              No PlayCanvas editor tabs are open.
+            </p>
+          )}
+          {!isLoading &&
+            tabs.map((tab) => {
+              const isBound = tab.tabId === boundTabId;
+              return (
+                <button
+                  key={tab.tabId}
+                  type="button"
+                  role="option"
+                  aria-selected={isBound}
+                  onClick={() => {
+                    setIsOpen(false);
+                    if (!isBound) {
+                      onSelectTab(tab.tabId);
+                    }
+                  }}
+                  className={cn(
+                    "flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-pc-primary hover:text-white",
+                    isBound
+                      ? "font-semibold text-pc-text-active"
+                      : "text-pc-text-primary"
+                  )}
+                >
+                  <span className="truncate">{describeTab(tab)}</span>
+                  {isBound && (
+                    <span className="text-[10px] uppercase">Bound</span>
+                  )}
+                </button>
+              );
+            })}
+        </div>
+      )}
+    </div>
+  );
+};
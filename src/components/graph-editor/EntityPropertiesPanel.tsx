@@ -0,0 +1,119 @@
+import { memo, useState } from "react";
+
+import { AttributeInput } from "@/components/script-attributes/ScriptAttributesPanel";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import type { EntityPayload, Vec3 } from "@/types/messaging";
+import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
+
+type EntityPropertiesPanelProps = {
+  entity: EntityPayload;
+};
+
+const TRANSFORM_FIELDS: Array<{
+  property: "position" | "rotation" | "scale";
+  label: string;
+  fallback: Vec3;
+}> = [
+  { property: "position", label: "Position", fallback: [0, 0, 0] },
+  { property: "rotation", label: "Rotation", fallback: [0, 0, 0] },
+  { property: "scale", label: "Scale", fallback: [1, 1, 1] },
+];
+
+export const EntityPropertiesPanel = memo(
+  ({ entity }: EntityPropertiesPanelProps) => {
+    const updateEntityProperty = useGraphEditorStore(
+      (state) => state.updateEntityProperty
+    );
+    const entities = useGraphEditorStore((state) => state.entities);
+    const [tagDraft, setTagDraft] = useState("");
+
+    const tags = entity.tags ?? [];
+
+    const addTag = () => {
+      const tag = tagDraft.trim();
+      setTagDraft("");
+      if (!tag || tags.includes(tag)) {
+        return;
+      }
+      updateEntityProperty(entity.guid, "tags", [...tags, tag]);
+    };
+
+    return (
+      <div className="space-y-3 text-sm">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={entity.enabled !== false}
+            onPointerDownCapture={stopReactFlowEvent}
+            onChange={(event) =>
+              updateEntityProperty(entity.guid, "enabled", event.target.checked)
+            }
+            className="h-4 w-4 accent-pc-text-active"
+          />
+          <span className="text-pc-text-secondary">Enabled</span>
+        </label>
+
+        <div>
+          <p className="mb-1 text-xs text-pc-text-dark">Tags</p>
+          <div className="flex flex-wrap items-center gap-1">
+            {tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 rounded-full bg-pc-darkest px-2 py-0.5 text-xs text-pc-text-primary"
+              >
+                {tag}
+                <button
+                  type="button"
+                  onPointerDownCapture={stopReactFlowEvent}
+                  onClick={withStopPropagation(() =>
+                    updateEntityProperty(
+                      entity.guid,
+                      "tags",
+                      tags.filter((existing) => existing !== tag)
+                    )
+                  )}
+                  className="text-pc-text-dark hover:text-pc-error"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={tagDraft}
+              placeholder="Add tag"
+              onPointerDownCapture={stopReactFlowEvent}
+              onChange={(event) => setTagDraft(event.target.value)}
+              onKeyDown={(event) => {
+                event.stopPropagation();
+                if (event.key === "Enter") {
+                  addTag();
+                }
+              }}
+              onBlur={addTag}
+              className="h-6 w-24 rounded-md border border-pc-border-primary bg-pc-darkest px-2 text-xs text-pc-text-primary outline-none focus:ring-2 focus:ring-pc-text-active"
+            />
+          </div>
+        </div>
+
+        {TRANSFORM_FIELDS.map(({ property, label, fallback }) => (
+          <div key={property}>
+            <p className="mb-1 text-xs text-pc-text-dark">{label}</p>
+            <AttributeInput
+              attribute={{ type: "vec3", value: entity[property] ?? fallback }}
+              value={entity[property] ?? fallback}
+              onChange={(value) =>
+                updateEntityProperty(entity.guid, property, value as Vec3)
+              }
+              entities={entities}
+              entityGuid={entity.guid}
+              attributeKey={property}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  }
+);
+EntityPropertiesPanel.displayName = "EntityPropertiesPanel";
@@ -2,6 +2,7 @@ import React, {
   useCallback,
   useEffect,
   useLayoutEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
@@ -17,13 +18,40 @@ import {
 import "reactflow/dist/style.css";
 
 import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import {
+  findReferencesIntoSubtrees,
+  type EntityReference,
+} from "@/utils/entityReferences";
+import { isEditableTarget } from "@/utils/events";
+import { AssetNode } from "./nodes/AssetNode";
+import { ComponentNode } from "./nodes/ComponentNode";
 import { EntityNode } from "./nodes/EntityNode";
 import { ScriptNode } from "./nodes/ScriptNode";
+import { ConfirmDialog } from "./ConfirmDialog";
 import { ContextMenu } from "./ContextMenu";
+import { SceneSearch } from "./SceneSearch";
+
+// Shift+drag on the pane box-selects (React Flow's default selection key)
+const MULTI_SELECTION_KEYS = ["Shift", "Control", "Meta"];
 
 const nodeTypes = {
   entity: EntityNode,
   script: ScriptNode,
+  component: ComponentNode,
+  asset: AssetNode,
+};
+
+/**
+ * The attribute handle under the pointer, ignoring the node being dragged
+ * that covers it.
+ */
+const findHandleAtPoint = (x: number, y: number) => {
+  const handle = document
+    .elementsFromPoint(x, y)
+    .find((element) => element.classList.contains("react-flow__handle"));
+  const nodeId = handle?.getAttribute("data-nodeid");
+  const handleId = handle?.getAttribute("data-handleid");
+  return nodeId && handleId ? { nodeId, handleId } : null;
 };
 
 const PREVIEW_DELAY_MS = 300; // Delay before showing preview
@@ -40,11 +68,21 @@ export function GraphEditorCanvas() {
     setReparentPreview,
     reparentEntity,
     addEntity,
+    deleteEntities,
+    duplicateEntities,
+    setRenamingEntity,
+    reorderScripts,
+    assignAsset,
+    undoLayout,
+    redoLayout,
+    resetSubtreeLayout,
     entities,
     rootGuid,
     pendingFocusGuid,
     clearPendingFocus,
     scriptPanelState,
+    referenceHighlightGuid,
+    setReferenceHighlight,
   } = useGraphEditorStore();
   const reactFlowInstance = useReactFlow();
   const updateNodeInternals = useUpdateNodeInternals();
@@ -64,6 +102,12 @@ export function GraphEditorCanvas() {
     targetNodeId: null,
   });
 
+  const [pendingDelete, setPendingDelete] = useState<{
+    guids: string[];
+    name: string;
+    references: EntityReference[];
+  } | null>(null);
+
   // Force React Flow to update node internals when Script Nodes are expanded
   // This ensures edges are visible when Handles appear
   useLayoutEffect(() => {
@@ -130,12 +174,18 @@ export function GraphEditorCanvas() {
 
   const onPaneClick = useCallback(() => {
     handleCloseContextMenu();
-  }, [handleCloseContextMenu]);
+    setReferenceHighlight(null);
+  }, [handleCloseContextMenu, setReferenceHighlight]);
 
   const onNodeClick = useCallback(
-    (_event: React.MouseEvent, node: Node) => {
+    (event: React.MouseEvent, node: Node) => {
       handleCloseContextMenu();
 
+      // Modifier clicks extend the selection; onNodesChange has the result
+      if (event.shiftKey || event.ctrlKey || event.metaKey) {
+        return;
+      }
+
       // onNodesChange already handles selection state and notifies the editor
       // This is just a backup notification in case onNodesChange didn't catch it
       // (which shouldn't happen, but we keep it for safety)
@@ -150,6 +200,15 @@ export function GraphEditorCanvas() {
           parentEntity?.data?.label || null,
           node.id
         );
+      } else if (node.type === "component" && node.parentNode) {
+        const parentEntity = nodes.find(
+          (n) => n.id === node.parentNode && n.type === "entity"
+        );
+        setSelectedEntity(
+          node.parentNode,
+          parentEntity?.data?.label || null,
+          null
+        );
       }
     },
     [setSelectedEntity, nodes, handleCloseContextMenu]
@@ -337,8 +396,52 @@ export function GraphEditorCanvas() {
     ]
   );
 
-  const onNodeDragStop = useCallback(
+  const assetDragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const onNodeDragStart = useCallback(
     (_event: React.MouseEvent, node: Node | undefined) => {
+      assetDragStartRef.current =
+        node?.type === "asset" ? { ...node.position } : null;
+    },
+    []
+  );
+
+  const onNodeDragStop = useCallback(
+    (event: React.MouseEvent, node: Node | undefined) => {
+      if (node?.type === "asset") {
+        // Dropping an asset node on an attribute handle assigns the asset
+        // and sends the node back where it came from
+        const handle = findHandleAtPoint(event.clientX, event.clientY);
+        const start = assetDragStartRef.current;
+        assetDragStartRef.current = null;
+        if (!handle) {
+          return;
+        }
+        assignAsset(handle.nodeId, handle.handleId, node.data.assetId);
+        if (start) {
+          onNodesChange([
+            { type: "position", id: node.id, position: start, dragging: false },
+          ]);
+        }
+        return;
+      }
+      if (node?.type === "script" && node.parentNode) {
+        // Script nodes stay stacked; dropping one reorders execution by
+        // where it landed relative to its siblings.
+        const entityGuid = node.parentNode;
+        const order = reactFlowInstance
+          .getNodes()
+          .filter(
+            (candidate) =>
+              candidate.type === "script" &&
+              candidate.parentNode === entityGuid
+          )
+          .map((candidate) => (candidate.id === node.id ? node : candidate))
+          .sort((a, b) => a.position.y - b.position.y)
+          .map((candidate) => candidate.data.scriptName as string);
+        reorderScripts(entityGuid, order);
+        return;
+      }
       if (!node || node.type !== "entity") {
         return;
       }
@@ -364,7 +467,40 @@ export function GraphEditorCanvas() {
         setReparentPreview(null, null);
       }
     },
-    [reparentEntity, setReparentPreview]
+    [
+      reparentEntity,
+      setReparentPreview,
+      reorderScripts,
+      assignAsset,
+      onNodesChange,
+      reactFlowInstance,
+    ]
+  );
+
+  const requestDeleteEntities = useCallback(
+    (guids: string[]) => {
+      const targets = guids.filter(
+        (guid) => entities[guid] && guid !== rootGuid
+      );
+      if (!targets.length) {
+        return;
+      }
+      const references = findReferencesIntoSubtrees(entities, targets);
+      if (references.length > 0) {
+        // Ask first: the editor's delete clears these attributes
+        setPendingDelete({
+          guids: targets,
+          name:
+            targets.length === 1
+              ? entities[targets[0]].name
+              : `${targets.length} entities`,
+          references,
+        });
+        return;
+      }
+      deleteEntities(targets);
+    },
+    [entities, rootGuid, deleteEntities]
   );
 
   useEffect(() => {
@@ -372,10 +508,19 @@ export function GraphEditorCanvas() {
       if (event.key !== "Delete" && event.key !== "Backspace") {
         return;
       }
+      if (isEditableTarget(event.target)) {
+        return;
+      }
 
       const currentEdges = reactFlowInstance.getEdges();
       const selectedEdges = currentEdges.filter((edge) => edge.selected);
       if (!selectedEdges.length) {
+        const { selectedEntityGuids, selectedScriptNodeId } =
+          useGraphEditorStore.getState();
+        if (selectedEntityGuids.length && !selectedScriptNodeId) {
+          event.preventDefault();
+          requestDeleteEntities(selectedEntityGuids);
+        }
         return;
       }
 
@@ -406,7 +551,82 @@ export function GraphEditorCanvas() {
         clearTimeout(previewTimeoutRef.current);
       }
     };
-  }, [reactFlowInstance, clearScriptAttribute]);
+  }, [reactFlowInstance, clearScriptAttribute, requestDeleteEntities]);
+
+  useEffect(() => {
+    const handleEntityShortcut = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) {
+        return;
+      }
+      const { selectedEntityGuid, selectedEntityGuids } =
+        useGraphEditorStore.getState();
+      if (!selectedEntityGuid) {
+        return;
+      }
+
+      if (event.key === "F2") {
+        event.preventDefault();
+        setRenamingEntity(selectedEntityGuid);
+      } else if (
+        (event.ctrlKey || event.metaKey) &&
+        event.key.toLowerCase() === "d"
+      ) {
+        // Keep the browser from bookmarking the page
+        event.preventDefault();
+        duplicateEntities(selectedEntityGuids);
+      }
+    };
+
+    window.addEventListener("keydown", handleEntityShortcut);
+    return () => {
+      window.removeEventListener("keydown", handleEntityShortcut);
+    };
+  }, [duplicateEntities, setRenamingEntity]);
+
+  // Layout changes have their own undo stack, on Alt+Z / Alt+Shift+Z so
+  // they don't collide with the editor's Ctrl+Z
+  useEffect(() => {
+    const handleLayoutShortcut = (event: KeyboardEvent) => {
+      if (
+        !event.altKey ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.code !== "KeyZ" ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        redoLayout();
+      } else {
+        undoLayout();
+      }
+    };
+
+    window.addEventListener("keydown", handleLayoutShortcut);
+    return () => {
+      window.removeEventListener("keydown", handleLayoutShortcut);
+    };
+  }, [undoLayout, redoLayout]);
+
+  // Highlight mode: inbound reference edges of one entity stand out while
+  // every other edge fades
+  const displayedEdges = useMemo(() => {
+    if (!referenceHighlightGuid) {
+      return edges;
+    }
+    return edges.map((edge) =>
+      edge.target === referenceHighlightGuid
+        ? {
+            ...edge,
+            animated: true,
+            zIndex: 1000,
+            style: { ...edge.style, strokeWidth: 4, opacity: 1 },
+          }
+        : { ...edge, style: { ...edge.style, opacity: 0.15 } }
+    );
+  }, [edges, referenceHighlightGuid]);
 
   const minimapNodeColor = useCallback(() => "#364346", []);
 
@@ -450,16 +670,50 @@ export function GraphEditorCanvas() {
     []
   );
 
-  const handleAddEntity = useCallback(() => {
-    addEntity(contextMenu.targetNodeId);
+  const handleAddEntity = useCallback(
+    (name: string) => {
+      addEntity(contextMenu.targetNodeId, name);
+      handleCloseContextMenu();
+    },
+    [addEntity, contextMenu.targetNodeId, handleCloseContextMenu]
+  );
+
+  const handleDeleteEntity = useCallback(() => {
+    if (contextMenu.targetNodeId) {
+      requestDeleteEntities([contextMenu.targetNodeId]);
+    }
+    handleCloseContextMenu();
+  }, [
+    requestDeleteEntities,
+    contextMenu.targetNodeId,
+    handleCloseContextMenu,
+  ]);
+
+  const handleDuplicateEntity = useCallback(() => {
+    if (contextMenu.targetNodeId) {
+      duplicateEntities([contextMenu.targetNodeId]);
+    }
+    handleCloseContextMenu();
+  }, [duplicateEntities, contextMenu.targetNodeId, handleCloseContextMenu]);
+
+  const handleResetLayout = useCallback(() => {
+    const guid = contextMenu.targetNodeId ?? rootGuid;
+    if (guid) {
+      resetSubtreeLayout(guid);
+    }
     handleCloseContextMenu();
-  }, [addEntity, contextMenu.targetNodeId, handleCloseContextMenu]);
+  }, [
+    resetSubtreeLayout,
+    contextMenu.targetNodeId,
+    rootGuid,
+    handleCloseContextMenu,
+  ]);
 
   return (
     <>
       <ReactFlow
         nodes={nodes}
-        edges={edges}
+        edges={displayedEdges}
         nodeTypes={nodeTypes}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
@@ -467,9 +721,11 @@ export function GraphEditorCanvas() {
         onNodeClick={onNodeClick}
         onPaneClick={onPaneClick}
         onNodeDrag={onNodeDrag}
+        onNodeDragStart={onNodeDragStart}
         onNodeDragStop={onNodeDragStop}
         onPaneContextMenu={onPaneContextMenu}
         onNodeContextMenu={onNodeContextMenu}
+        multiSelectionKeyCode={MULTI_SELECTION_KEYS}
         className="h-full bg-pc-darker"
         connectionRadius={40}
         fitView
@@ -488,15 +744,57 @@ export function GraphEditorCanvas() {
           zoomable
         />
       </ReactFlow>
+      <SceneSearch />
       {contextMenu.isOpen && (
         <ContextMenu
           x={contextMenu.x}
           y={contextMenu.y}
           targetNodeId={contextMenu.targetNodeId}
+          canDeleteEntity={contextMenu.targetNodeId !== rootGuid}
           onAddEntity={handleAddEntity}
+          onDuplicateEntity={handleDuplicateEntity}
+          onDeleteEntity={handleDeleteEntity}
+          onResetLayout={handleResetLayout}
           onClose={handleCloseContextMenu}
         />
       )}
+      {pendingDelete && (
+        <ConfirmDialog
+          title={`Delete ${pendingDelete.name}?`}
+          confirmLabel="Delete anyway"
+          message={
+            <>
+              <p>
+                {pendingDelete.references.length === 1
+                  ? "1 attribute still references"
+                  : `${pendingDelete.references.length} attributes still reference`}{" "}
+                {pendingDelete.guids.length === 1
+                  ? "this entity or its children"
+                  : "these entities or their children"}
+                . The editor clears them when it deletes the{" "}
+                {pendingDelete.guids.length === 1 ? "entity" : "entities"};
+                undoing the delete restores them.
+              </p>
+              <ul className="mt-2 max-h-40 list-disc overflow-y-auto pl-5 text-xs">
+                {pendingDelete.references.map((reference) => (
+                  <li
+                    key={`${reference.sourceGuid}-${reference.scriptName}-${reference.attributeName}-${reference.targetGuid}`}
+                  >
+                    {entities[reference.sourceGuid]?.name ??
+                      reference.sourceGuid}{" "}
+                    › {reference.scriptName}.{reference.attributeName}
+                  </li>
+                ))}
+              </ul>
+            </>
+          }
+          onConfirm={() => {
+            deleteEntities(pendingDelete.guids);
+            setPendingDelete(null);
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
     </>
   );
 }
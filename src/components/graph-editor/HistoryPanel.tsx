@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from "react";
+
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+
+/**
+ * Undo/redo buttons for the editor's history, with a dropdown listing its
+ * recent entries. Picking an entry steps the editor back or forward to it.
+ */
+export const HistoryPanel = () => {
+  const editorHistory = useGraphEditorStore((state) => state.editorHistory);
+  const stepEditorHistory = useGraphEditorStore(
+    (state) => state.stepEditorHistory
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+    };
+  }, [isOpen]);
+
+  const { entries } = editorHistory;
+  const doneCount = entries.filter((entry) => entry.done).length;
+
+  // Stepping to an entry leaves it, and everything before it, applied
+  const stepTo = (index: number) => {
+    setIsOpen(false);
+    if (index < doneCount - 1) {
+      stepEditorHistory("undo", doneCount - 1 - index);
+    } else if (index > doneCount - 1) {
+      stepEditorHistory("redo", index - (doneCount - 1));
+    }
+  };
+
+  const buttonClass =
+    "rounded-lg bg-pc-dark px-3 py-2 text-sm font-bold text-pc-text-primary transition-colors hover:bg-pc-darker disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <div ref={ref} className="relative flex items-center gap-1">
+      <button
+        type="button"
+        disabled={!editorHistory.canUndo}
+        onClick={() => stepEditorHistory("undo")}
+        className={buttonClass}
+        aria-label="Undo"
+        title="Undo (Ctrl+Z)"
+      >
+        ↶
+      </button>
+      <button
+        type="button"
+        disabled={!editorHistory.canRedo}
+        onClick={() => stepEditorHistory("redo")}
+        className={buttonClass}
+        aria-label="Redo"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        ↷
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={buttonClass}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        History <span className="text-xs">▾</span>
+      </button>
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute right-0 top-full z-50 mt-2 max-h-96 min-w-[280px] overflow-y-auto rounded-md border border-pc-border-primary bg-pc-darker py-1 shadow-lg"
+        >
+          {entries.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-pc-text-dark">
+              Nothing to undo yet.
+            </p>
+          ) : (
+            // Newest first, like the editor's own history list
+            entries
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => (
+                <button
+                  key={index}
+                  type="button"
+                  role="option"
+                  aria-selected={index === doneCount - 1}
+                  onClick={() => stepTo(index)}
+                  className={cn(
+                    "flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-pc-primary hover:text-white",
+                    entry.done
+                      ? "text-pc-text-primary"
+                      : "italic text-pc-text-dark",
+                    index === doneCount - 1 && "font-semibold"
+                  )}
+                >
+                  <span className="truncate">{entry.name}</span>
+                  {!entry.done && (
+                    <span className="text-[10px] uppercase">Undone</span>
+                  )}
+                </button>
+              ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from "react";
+
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+import type { EntityReference } from "@/utils/entityReferences";
+import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
+
+type InboundReferencesMenuProps = {
+  entityGuid: string;
+  references: EntityReference[];
+  onClose: () => void;
+};
+
+/**
+ * Lists the script attributes that point at an entity. Picking a row
+ * focuses the entity holding the attribute.
+ */
+export const InboundReferencesMenu: React.FC<InboundReferencesMenuProps> = ({
+  entityGuid,
+  references,
+  onClose,
+}) => {
+  const entities = useGraphEditorStore((state) => state.entities);
+  const focusEntity = useGraphEditorStore((state) => state.focusEntity);
+  const isHighlighted = useGraphEditorStore(
+    (state) => state.referenceHighlightGuid === entityGuid
+  );
+  const setReferenceHighlight = useGraphEditorStore(
+    (state) => state.setReferenceHighlight
+  );
+  const panelRef = useRef<HTMLDivElement | null>(null);
+
+  // Click outside or ESC closes the menu
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(event.target as Node)
+      ) {
+        onClose();
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("keydown", handleEscape);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={panelRef}
+      className="nodrag nowheel absolute right-0 top-full z-40 mt-2 w-80 rounded-2xl border border-pc-border-primary/70 bg-pc-darkest/95 p-3 shadow-2xl backdrop-blur"
+      onPointerDownCapture={stopReactFlowEvent}
+      onMouseDown={stopReactFlowEvent}
+    >
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="text-xs text-pc-text-secondary">
+          Referenced by {references.length} attribute
+          {references.length === 1 ? "" : "s"}
+        </p>
+        <button
+          type="button"
+          onClick={withStopPropagation(() => {
+            setReferenceHighlight(isHighlighted ? null : entityGuid);
+          })}
+          className={cn(
+            "rounded-full border border-pc-border-primary/80 px-2 py-0.5 text-[11px] transition hover:bg-pc-darker",
+            isHighlighted
+              ? "bg-pc-darker text-pc-text-active"
+              : "bg-pc-dark text-pc-text-primary"
+          )}
+          aria-pressed={isHighlighted}
+        >
+          Highlight edges
+        </button>
+      </div>
+      <ul className="max-h-60 overflow-y-auto overscroll-contain rounded-xl border border-pc-border-primary/30">
+        {references.map((reference, index) => (
+          <li
+            key={`${reference.sourceGuid}-${reference.scriptName}-${reference.attributeName}-${index}`}
+          >
+            <button
+              type="button"
+              onClick={withStopPropagation(() => {
+                focusEntity(reference.sourceGuid);
+                onClose();
+              })}
+              className="flex w-full flex-col px-3 py-2 text-left transition hover:bg-pc-dark"
+            >
+              <span className="truncate text-sm text-pc-text-primary">
+                {entities[reference.sourceGuid]?.name ?? reference.sourceGuid}
+              </span>
+              <span className="truncate text-xs text-pc-text-dark">
+                {reference.scriptName}.{reference.attributeName}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+import { BUILT_IN_LINT_RULES } from "@/utils/lintRules";
+import {
+  isLintRuleEnabled,
+  runSceneLint,
+  type LintIssue,
+  type LintSeverity,
+} from "@/utils/sceneLint";
+
+export type LintDock = "right" | "bottom";
+
+type LintPanelProps = {
+  dock: LintDock;
+  onDockChange: (dock: LintDock) => void;
+  onClose: () => void;
+};
+
+const SEVERITY_CLASS: Record<LintSeverity, string> = {
+  error: "bg-pc-error/20 text-pc-error",
+  warning: "bg-amber-400/20 text-amber-300",
+  info: "bg-pc-darkest text-pc-text-dark",
+};
+
+/**
+ * Lint report for the loaded scene, docked beside or below the canvas.
+ * Clicking an issue focuses the entity, or script, it belongs to.
+ */
+export const LintPanel = ({ dock, onDockChange, onClose }: LintPanelProps) => {
+  const entities = useGraphEditorStore((state) => state.entities);
+  const rootGuid = useGraphEditorStore((state) => state.rootGuid);
+  const projectId = useGraphEditorStore((state) => state.projectId);
+  const sceneId = useGraphEditorStore((state) => state.sceneId);
+  const lintRuleSettings = useGraphEditorStore(
+    (state) => state.lintRuleSettings
+  );
+  const setLintRuleEnabled = useGraphEditorStore(
+    (state) => state.setLintRuleEnabled
+  );
+  const focusEntity = useGraphEditorStore((state) => state.focusEntity);
+  const setSelectedEntity = useGraphEditorStore(
+    (state) => state.setSelectedEntity
+  );
+  const [showRules, setShowRules] = useState(false);
+
+  const issues = useMemo(
+    () =>
+      rootGuid
+        ? runSceneLint(
+            {
+              rootGuid,
+              entities,
+              selectedEntityName: null,
+              projectId,
+              sceneId,
+            },
+            BUILT_IN_LINT_RULES,
+            lintRuleSettings
+          )
+        : [],
+    [rootGuid, entities, projectId, sceneId, lintRuleSettings]
+  );
+
+  const focusIssue = (issue: LintIssue) => {
+    focusEntity(issue.entityGuid);
+    if (issue.scriptName) {
+      setSelectedEntity(
+        issue.entityGuid,
+        entities[issue.entityGuid]?.name ?? null,
+        `${issue.entityGuid}-${issue.scriptName}`,
+        { broadcast: false }
+      );
+    }
+  };
+
+  const ruleTitles = Object.fromEntries(
+    BUILT_IN_LINT_RULES.map((rule) => [rule.id, rule.title])
+  );
+  const countOf = (severity: LintSeverity) =>
+    issues.filter((issue) => issue.severity === severity).length;
+
+  return (
+    <aside
+      aria-label="Scene lint"
+      className={cn(
+        "flex shrink-0 flex-col bg-pc-darkest text-sm text-pc-text-primary",
+        dock === "right"
+          ? "w-96 border-l border-pc-border-primary/40"
+          : "h-64 border-t border-pc-border-primary/40"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 border-b border-pc-border-primary/40 px-4 py-2">
+        <div className="flex items-center gap-3">
+          <p className="font-bold">Scene lint</p>
+          <span className="text-xs text-pc-text-dark">
+            {countOf("error")} errors · {countOf("warning")} warnings ·{" "}
+            {countOf("info")} info
+          </span>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            type="button"
+            onClick={() => setShowRules((open) => !open)}
+            className="rounded-md px-2 py-1 text-pc-text-secondary hover:bg-pc-dark hover:text-pc-text-primary"
+            aria-expanded={showRules}
+          >
+            Rules
+          </button>
+          <button
+            type="button"
+            onClick={() => onDockChange(dock === "right" ? "bottom" : "right")}
+            className="rounded-md px-2 py-1 text-pc-text-secondary hover:bg-pc-dark hover:text-pc-text-primary"
+          >
+            {dock === "right" ? "Dock bottom" : "Dock right"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md px-2 py-1 text-pc-text-dark hover:text-pc-text-primary"
+            aria-label="Close lint panel"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+      {showRules && (
+        <ul className="space-y-1 border-b border-pc-border-primary/40 px-4 py-2">
+          {BUILT_IN_LINT_RULES.map((rule) => (
+            <li key={rule.id}>
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={isLintRuleEnabled(rule, lintRuleSettings)}
+                  onChange={(event) =>
+                    setLintRuleEnabled(rule.id, event.target.checked)
+                  }
+                />
+                <span>
+                  <span className="font-semibold">{rule.title}</span>
+                  <span className="block text-xs text-pc-text-dark">
+                    {rule.description}
+                  </span>
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      <ul className="min-h-0 flex-1 overflow-y-auto">
+        {issues.length === 0 ? (
+          <li className="px-4 py-3 text-xs text-pc-text-dark">
+            No issues found.
+          </li>
+        ) : (
+          issues.map((issue, index) => (
+            <li key={`${issue.ruleId}-${issue.entityGuid}-${index}`}>
+              <button
+                type="button"
+                onClick={() => focusIssue(issue)}
+                className="flex w-full items-start gap-2 border-b border-pc-border-primary/20 px-4 py-2 text-left hover:bg-pc-dark"
+              >
+                <span
+                  className={cn(
+                    "mt-0.5 rounded px-1.5 py-0.5 text-[10px] font-bold uppercase",
+                    SEVERITY_CLASS[issue.severity]
+                  )}
+                >
+                  {issue.severity}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block">{issue.message}</span>
+                  <span className="block truncate text-xs text-pc-text-dark">
+                    {entities[issue.entityGuid]?.name ?? issue.entityGuid} ·{" "}
+                    {ruleTitles[issue.ruleId] ?? issue.ruleId}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))
+        )}
+      </ul>
+    </aside>
+  );
+};
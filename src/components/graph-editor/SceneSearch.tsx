@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+import { Input } from "@/components/ui/Input";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+import { withStopPropagation } from "@/utils/events";
+import { searchScene, type SearchField } from "@/utils/sceneSearch";
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  name: "Name",
+  path: "Path",
+  script: "Script",
+  component: "Component",
+  attribute: "Value",
+};
+
+/**
+ * Ctrl+F search over the scene. Arrow keys step through the hits and
+ * reveal each one on the canvas; Enter keeps the current hit and closes.
+ */
+export const SceneSearch: React.FC = () => {
+  const entities = useGraphEditorStore((state) => state.entities);
+  const revealEntity = useGraphEditorStore((state) => state.revealEntity);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(
+    () => (isOpen ? searchScene(entities, query) : []),
+    [entities, query, isOpen]
+  );
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Takes over the browser's find, which can't see into the canvas anyway
+  useEffect(() => {
+    const handleFindShortcut = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.altKey ||
+        event.code !== "KeyF"
+      ) {
+        return;
+      }
+      event.preventDefault();
+      setIsOpen(true);
+      requestAnimationFrame(() => inputRef.current?.select());
+    };
+
+    window.addEventListener("keydown", handleFindShortcut);
+    return () => {
+      window.removeEventListener("keydown", handleFindShortcut);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handlePointerDown = (event: MouseEvent) => {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  // Browsing hits only moves the graph; a chosen hit is also selected and
+  // framed in the editor
+  const revealAt = (index: number, options: { choose?: boolean } = {}) => {
+    const result = results[index];
+    if (!result) {
+      return;
+    }
+    setActiveIndex(index);
+    revealEntity(
+      result.guid,
+      options.choose
+        ? undefined
+        : { broadcast: false, requestViewportFocus: false }
+    );
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      if (!results.length) return;
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      revealAt((activeIndex + step + results.length) % results.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      revealAt(activeIndex, { choose: true });
+      setIsOpen(false);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={panelRef}
+      role="search"
+      className="nodrag nowheel absolute left-4 top-4 z-40 w-96 rounded-2xl border border-pc-border-primary/70 bg-pc-darkest/95 p-3 text-sm text-pc-text-primary shadow-2xl backdrop-blur"
+    >
+      <Input
+        ref={inputRef}
+        value={query}
+        onChange={(value) => setQuery(String(value))}
+        onKeyDown={handleKeyDown}
+        deferUpdate={false}
+        autoFocus
+        placeholder="Search entities, scripts, components, values…"
+        aria-label="Search scene"
+        className="w-full"
+      />
+      {query.trim() && (
+        <ul ref={listRef} className="mt-2 max-h-80 overflow-y-auto">
+          {results.length === 0 ? (
+            <li className="px-2 py-2 text-xs text-pc-text-dark">
+              No matches.
+            </li>
+          ) : (
+            results.map((result, index) => {
+              const ancestors = result.breadcrumbs.slice(0, -1);
+              const name = result.breadcrumbs[result.breadcrumbs.length - 1];
+              return (
+                <li key={result.guid} data-index={index}>
+                  <button
+                    type="button"
+                    onClick={withStopPropagation(() =>
+                      revealAt(index, { choose: true })
+                    )}
+                    className={cn(
+                      "flex w-full flex-col rounded-lg px-2 py-1.5 text-left hover:bg-pc-dark",
+                      index === activeIndex && "bg-pc-dark"
+                    )}
+                  >
+                    <span className="flex items-center gap-2">
+                      <span className="min-w-0 flex-1 truncate font-semibold">
+                        {name}
+                      </span>
+                      <span className="shrink-0 text-[10px] uppercase text-pc-text-dark">
+                        {FIELD_LABELS[result.field]}
+                      </span>
+                    </span>
+                    {ancestors.length > 0 && (
+                      <span className="truncate text-xs text-pc-text-dark">
+                        {ancestors.join(" › ")}
+                      </span>
+                    )}
+                    {(result.field === "script" ||
+                      result.field === "component" ||
+                      result.field === "attribute") && (
+                      <span className="truncate text-xs text-pc-text-secondary">
+                        {result.matchedText}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { memo } from "react";
+import { Handle, Position, type NodeProps } from "reactflow";
+
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+
+type AssetNodeData = {
+  assetId: string;
+};
+
+export const AssetNode = memo(
+  ({ data, selected }: NodeProps<AssetNodeData>) => {
+    const asset = useGraphEditorStore((state) => state.assets[data.assetId]);
+
+    return (
+      <div
+        data-type="asset"
+        title="Drop onto an asset attribute's handle to assign it"
+        className={cn(
+          "flex h-full flex-col justify-center rounded-2xl border px-4 py-2 shadow-sm transition-all",
+          selected
+            ? "border-sky-400 bg-pc-darkest ring-2 ring-sky-400 ring-offset-1 ring-offset-pc-darker"
+            : "border-sky-400/40 bg-pc-dark/80",
+          !asset && "border-dashed"
+        )}
+      >
+        <p className="text-[11px] uppercase tracking-wide text-pc-text-dark">
+          {asset?.type ?? "Asset"} · {data.assetId}
+        </p>
+        <p className="truncate text-sm font-bold text-pc-text-primary">
+          {asset?.name ?? "Unknown asset"}
+        </p>
+        <Handle
+          type="target"
+          position={Position.Left}
+          className="!h-3 !w-3 !bg-sky-400"
+        />
+      </div>
+    );
+  }
+);
+
+AssetNode.displayName = "AssetNode";
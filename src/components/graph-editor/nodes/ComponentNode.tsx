@@ -0,0 +1,124 @@
+import { memo, useMemo } from "react";
+import type { NodeProps } from "reactflow";
+
+import { ComponentPropertiesPanel } from "@/components/component-properties/ComponentPropertiesPanel";
+import { Switch } from "@/components/ui/Switch";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import type { ComponentPayload } from "@/types/messaging";
+import { summarizeComponent } from "@/utils/componentSummary";
+import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
+import { cn } from "@/utils/cn";
+
+type ComponentNodeData = {
+  label: string;
+  componentType: string;
+  entityGuid: string;
+  component?: ComponentPayload;
+};
+
+export const ComponentNode = memo(
+  ({ id, data, selected }: NodeProps<ComponentNodeData>) => {
+    // Component nodes share the expand/collapse state map with script nodes
+    const isCollapsed = useGraphEditorStore(
+      (state) => state.scriptPanelState[id] ?? true
+    );
+    const toggleScriptPanel = useGraphEditorStore(
+      (state) => state.toggleScriptPanel
+    );
+    const updateComponentProperty = useGraphEditorStore(
+      (state) => state.updateComponentProperty
+    );
+    const rows = useMemo(
+      () => summarizeComponent(data.componentType, data.component),
+      [data.componentType, data.component]
+    );
+    const isDisabled = data.component?.enabled === false;
+
+    return (
+      <div
+        data-type="component"
+        className={cn(
+          "flex flex-col rounded-2xl border px-4 py-3 shadow-sm backdrop-blur-sm transition-all",
+          selected
+            ? "border-pc-text-secondary bg-pc-darkest ring-2 ring-pc-text-secondary ring-offset-1 ring-offset-pc-darker"
+            : "border-pc-border-primary/60 bg-pc-dark/60",
+          isDisabled && "opacity-60"
+        )}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-[11px] uppercase tracking-wide text-pc-text-dark">
+              Component
+            </p>
+            <p className="font-bold text-sm text-pc-text-primary">
+              {data.label}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isDisabled ? (
+              <span className="text-[10px] uppercase text-pc-text-dark">
+                Disabled
+              </span>
+            ) : null}
+            {data.component && "enabled" in data.component ? (
+              <Switch
+                checked={!isDisabled}
+                label={
+                  isDisabled
+                    ? `Enable ${data.componentType}`
+                    : `Disable ${data.componentType}`
+                }
+                onChange={(enabled) =>
+                  updateComponentProperty(
+                    data.entityGuid,
+                    `components.${data.componentType}.enabled`,
+                    enabled
+                  )
+                }
+              />
+            ) : null}
+            <button
+              type="button"
+              onPointerDownCapture={stopReactFlowEvent}
+              onClick={withStopPropagation(() => {
+                toggleScriptPanel(id);
+              })}
+              className="rounded-full border border-pc-border-primary/80 bg-pc-dark p-1 text-pc-text-primary transition hover:bg-pc-darker"
+              aria-label={isCollapsed ? "Edit properties" : "Collapse"}
+            >
+              <span
+                className={cn(
+                  "inline-block text-sm transition-transform",
+                  !isCollapsed && "rotate-180"
+                )}
+              >
+                ▾
+              </span>
+            </button>
+          </div>
+        </div>
+        {rows.length > 0 ? (
+          <dl className="mt-2 grid grid-cols-[auto,1fr] gap-x-3 text-xs leading-[18px]">
+            {rows.map((row) => (
+              <div key={row.label} className="contents">
+                <dt className="text-pc-text-dark">{row.label}</dt>
+                <dd className="truncate text-pc-text-secondary">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : null}
+        {!isCollapsed && data.component ? (
+          <div className="mt-3 rounded-2xl border border-pc-border-primary/40 bg-pc-primary/50 p-3">
+            <ComponentPropertiesPanel
+              entityGuid={data.entityGuid}
+              componentType={data.componentType}
+              component={data.component}
+            />
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+);
+
+ComponentNode.displayName = "ComponentNode";
@@ -1,16 +1,80 @@
-import { memo } from "react";
+import { memo, useEffect, useRef, useState } from "react";
 import { Handle, Position, type NodeProps } from "reactflow";
 
 import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { findInboundReferences } from "@/utils/entityReferences";
+import { ENTITY_PROPERTIES_PANEL_HEIGHT } from "@/utils/graphLayout";
 import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
 import { cn } from "@/utils/cn";
+import { AddScriptMenu } from "../AddScriptMenu";
+import { EntityPropertiesPanel } from "../EntityPropertiesPanel";
+import { InboundReferencesMenu } from "../InboundReferencesMenu";
 
 interface EntityNodeData {
   label: string;
   collapsed?: boolean;
   childrenCount?: number;
+  /**
+   * True when the entity or one of its ancestors is disabled.
+   */
+  disabled?: boolean;
+  propertiesOpen?: boolean;
 }
 
+type EntityNameInputProps = {
+  initialName: string;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+};
+
+const EntityNameInput = ({
+  initialName,
+  onCommit,
+  onCancel,
+}: EntityNameInputProps) => {
+  const [draft, setDraft] = useState(initialName);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Enter and Escape finish editing before the blur that follows them
+  const finishedRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.select();
+  }, []);
+
+  const finish = (commit: boolean) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    if (commit) {
+      onCommit(draft);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      value={draft}
+      autoFocus
+      aria-label="Entity name"
+      onPointerDownCapture={stopReactFlowEvent}
+      onDoubleClick={stopReactFlowEvent}
+      onChange={(event) => setDraft(event.target.value)}
+      onKeyDown={(event) => {
+        event.stopPropagation();
+        if (event.key === "Enter") {
+          finish(true);
+        } else if (event.key === "Escape") {
+          finish(false);
+        }
+      }}
+      onBlur={() => finish(true)}
+      className="nodrag mb-1 w-full rounded-md border border-pc-border-primary bg-pc-darkest px-2 py-0.5 text-lg font-bold leading-tight text-pc-text-primary outline-none focus:ring-2 focus:ring-pc-text-active"
+    />
+  );
+};
+
 export const EntityNode = memo(
   ({ id, data, selected }: NodeProps<EntityNodeData>) => {
     const toggleEntityCollapse = useGraphEditorStore(
@@ -22,6 +86,22 @@ export const EntityNode = memo(
     const previewParentGuid = useGraphEditorStore(
       (state) => state.previewParentGuid
     );
+    const toggleEntityPanel = useGraphEditorStore(
+      (state) => state.toggleEntityPanel
+    );
+    const entity = useGraphEditorStore((state) => state.entities[id]);
+    const isRenaming = useGraphEditorStore(
+      (state) => state.renamingEntityGuid === id
+    );
+    const setRenamingEntity = useGraphEditorStore(
+      (state) => state.setRenamingEntity
+    );
+    const renameEntity = useGraphEditorStore((state) => state.renameEntity);
+    const inboundReferences = useGraphEditorStore((state) =>
+      findInboundReferences(state.entities, id)
+    );
+    const [isAddScriptOpen, setAddScriptOpen] = useState(false);
+    const [isReferencesOpen, setReferencesOpen] = useState(false);
 
     const collapsed = !!data.collapsed;
     const childrenCount = data.childrenCount ?? 0;
@@ -35,6 +115,7 @@ export const EntityNode = memo(
         className={cn(
           "relative h-full w-full rounded-3xl border border-pc-border-primary/60 bg-pc-primary/80 p-4 text-pc-text-primary shadow-xl shadow-black/40 transition-all",
           collapsed && "opacity-90",
+          data.disabled && "opacity-50",
           isDragging && "opacity-50 cursor-grabbing",
           // Preview effects take priority over selection
           isReparentingToRoot &&
@@ -52,34 +133,123 @@ export const EntityNode = memo(
             <p className="text-[11px] uppercase tracking-wide text-pc-text-dark">
               Entity
             </p>
-            <div className="text-lg font-bold leading-tight mb-1">
-              {data.label}
-            </div>
+            {isRenaming ? (
+              <EntityNameInput
+                initialName={data.label}
+                onCommit={(name) => {
+                  setRenamingEntity(null);
+                  renameEntity(id, name);
+                }}
+                onCancel={() => setRenamingEntity(null)}
+              />
+            ) : (
+              <div
+                className="text-lg font-bold leading-tight mb-1"
+                title="Double-click or press F2 to rename"
+                onDoubleClick={withStopPropagation(() => {
+                  setRenamingEntity(id);
+                })}
+              >
+                {data.label}
+              </div>
+            )}
             {childrenCount > 0 && (
               <p className="text-xs text-pc-text-dark">
                 {childrenCount} child{childrenCount === 1 ? "" : "ren"}
               </p>
             )}
           </div>
-          <button
-            type="button"
-            onPointerDownCapture={stopReactFlowEvent}
-            onClick={withStopPropagation(() => {
-              toggleEntityCollapse(id);
-            })}
-            className="rounded-full border border-pc-border-primary/80 bg-pc-dark p-1 text-pc-text-primary transition hover:bg-pc-darker"
-            aria-label={collapsed ? "Expand entity" : "Collapse entity"}
-          >
-            <span
+          <div className="relative flex items-center gap-2">
+            {data.disabled && (
+              <span className="text-[10px] uppercase text-pc-text-dark">
+                Disabled
+              </span>
+            )}
+            {inboundReferences.length > 0 && (
+              <button
+                type="button"
+                onPointerDownCapture={stopReactFlowEvent}
+                onClick={withStopPropagation(() => {
+                  setReferencesOpen((open) => !open);
+                })}
+                className="rounded-full border border-pink-400/60 bg-pc-dark px-2 py-1 text-[11px] text-pink-300 transition hover:bg-pc-darker"
+                title="Script attributes referencing this entity"
+                aria-expanded={isReferencesOpen}
+              >
+                ← {inboundReferences.length}
+              </button>
+            )}
+            <button
+              type="button"
+              onPointerDownCapture={stopReactFlowEvent}
+              onClick={withStopPropagation(() => {
+                toggleEntityPanel(id);
+              })}
               className={cn(
-                "inline-block text-sm transition-transform",
-                !collapsed && "rotate-180"
+                "rounded-full border border-pc-border-primary/80 px-2 py-1 text-[11px] transition hover:bg-pc-darker",
+                data.propertiesOpen
+                  ? "bg-pc-darker text-pc-text-active"
+                  : "bg-pc-dark text-pc-text-primary"
               )}
+              aria-expanded={!!data.propertiesOpen}
+            >
+              Properties
+            </button>
+            <button
+              type="button"
+              onPointerDownCapture={stopReactFlowEvent}
+              onClick={withStopPropagation(() => {
+                setAddScriptOpen((open) => !open);
+              })}
+              className="rounded-full border border-pc-border-primary/80 bg-pc-dark px-2 py-1 text-[11px] text-pc-text-primary transition hover:bg-pc-darker"
+              aria-expanded={isAddScriptOpen}
             >
-              ▾
-            </span>
-          </button>
+              + Script
+            </button>
+            <button
+              type="button"
+              onPointerDownCapture={stopReactFlowEvent}
+              onClick={withStopPropagation(() => {
+                toggleEntityCollapse(id);
+              })}
+              className="rounded-full border border-pc-border-primary/80 bg-pc-dark p-1 text-pc-text-primary transition hover:bg-pc-darker"
+              aria-label={collapsed ? "Expand entity" : "Collapse entity"}
+            >
+              <span
+                className={cn(
+                  "inline-block text-sm transition-transform",
+                  !collapsed && "rotate-180"
+                )}
+              >
+                ▾
+              </span>
+            </button>
+            {isAddScriptOpen && entity && (
+              <AddScriptMenu
+                entityGuid={id}
+                existingScripts={Object.keys(
+                  entity.components?.script?.scripts ?? {}
+                )}
+                onClose={() => setAddScriptOpen(false)}
+              />
+            )}
+            {isReferencesOpen && inboundReferences.length > 0 && (
+              <InboundReferencesMenu
+                entityGuid={id}
+                references={inboundReferences}
+                onClose={() => setReferencesOpen(false)}
+              />
+            )}
+          </div>
         </div>
+        {data.propertiesOpen && entity && (
+          <div
+            className="nodrag nowheel mt-2 overflow-y-auto rounded-2xl border border-pc-border-primary/40 bg-pc-dark/80 p-3"
+            style={{ maxHeight: ENTITY_PROPERTIES_PANEL_HEIGHT - 16 }}
+          >
+            <EntityPropertiesPanel entity={entity} />
+          </div>
+        )}
         <Handle
           type="target"
           position={Position.Left}
@@ -2,8 +2,11 @@ import { memo, useMemo } from "react";
 import type { NodeProps } from "reactflow";
 
 import { ScriptAttributesPanel } from "@/components/script-attributes/ScriptAttributesPanel";
+import { Switch } from "@/components/ui/Switch";
 import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
 import type { ScriptAttributePayload } from "@/types/messaging";
+import { findBrokenReferences } from "@/utils/brokenReferences";
+import { mergeScriptAttributes } from "@/utils/bulkAttributes";
 import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
 import { cn } from "@/utils/cn";
 
@@ -12,6 +15,11 @@ type ScriptNodeData = {
   scriptName?: string;
   entityGuid?: string;
   attributes?: Record<string, ScriptAttributePayload>;
+  enabled?: boolean;
+  /**
+   * False when the entity's whole script component is disabled.
+   */
+  componentEnabled?: boolean;
 };
 
 export const ScriptNode = memo(
@@ -39,6 +47,48 @@ export const ScriptNode = memo(
     const toggleScriptPanel = useGraphEditorStore(
       (state) => state.toggleScriptPanel
     );
+    const removeScript = useGraphEditorStore((state) => state.removeScript);
+    const updateComponentProperty = useGraphEditorStore(
+      (state) => state.updateComponentProperty
+    );
+    const selectedEntityGuids = useGraphEditorStore(
+      (state) => state.selectedEntityGuids
+    );
+    const entities = useGraphEditorStore((state) => state.entities);
+    const updateScriptAttributes = useGraphEditorStore(
+      (state) => state.updateScriptAttributes
+    );
+    // With several selected entities carrying this script, the panel edits
+    // all of them at once
+    const bulk = useMemo(() => {
+      if (
+        !entityGuid ||
+        !scriptName ||
+        selectedEntityGuids.length < 2 ||
+        !selectedEntityGuids.includes(entityGuid)
+      ) {
+        return null;
+      }
+      const merged = mergeScriptAttributes(
+        entities,
+        [
+          entityGuid,
+          ...selectedEntityGuids.filter((guid) => guid !== entityGuid),
+        ],
+        scriptName
+      );
+      return merged.entityGuids.length > 1 ? merged : null;
+    }, [entities, entityGuid, scriptName, selectedEntityGuids]);
+    const brokenReferenceCount = useGraphEditorStore(
+      (state) =>
+        findBrokenReferences(state.entities).filter(
+          (reference) =>
+            reference.sourceGuid === entityGuid &&
+            reference.scriptName === scriptName
+        ).length
+    );
+    const isEnabled = data.enabled !== false;
+    const isRunning = isEnabled && data.componentEnabled !== false;
 
     return (
       <div
@@ -47,7 +97,8 @@ export const ScriptNode = memo(
           "flex flex-col rounded-2xl border px-4 py-3 shadow-sm backdrop-blur-sm transition-all",
           selected
             ? "border-pc-text-active bg-pc-darkest ring-2 ring-pc-text-active ring-offset-1 ring-offset-pc-darker"
-            : "border-pc-text-active/40 bg-pc-dark/80"
+            : "border-pc-text-active/40 bg-pc-dark/80",
+          !isRunning && "border-dashed opacity-60 grayscale"
         )}
       >
         <div className="flex items-center justify-between gap-2">
@@ -63,41 +114,106 @@ export const ScriptNode = memo(
             >
               {data.label}
             </p>
+            {!isRunning && (
+              <p className="text-[10px] uppercase text-pc-text-dark">
+                {isEnabled ? "Script component disabled" : "Disabled"}
+              </p>
+            )}
             <p className="text-xs text-pc-text-dark">
               {entityAttributeCount} entity link
               {entityAttributeCount === 1 ? "" : "s"} • {totalAttributeCount}{" "}
               attribute
               {totalAttributeCount === 1 ? "" : "s"}
             </p>
+            {brokenReferenceCount > 0 && (
+              <p
+                className="mt-1 flex items-center gap-1 text-xs font-semibold text-pc-error"
+                title="Attributes pointing at entities that are no longer in the scene"
+              >
+                <span className="inline-block h-2 w-2 rounded-full bg-pc-error" />
+                {brokenReferenceCount} broken reference
+                {brokenReferenceCount === 1 ? "" : "s"}
+              </p>
+            )}
           </div>
-          {scriptNodeId ? (
-            <button
-              type="button"
-              onPointerDownCapture={stopReactFlowEvent}
-              onClick={withStopPropagation(() => {
-                toggleScriptPanel(scriptNodeId);
-              })}
-              className="rounded-full border border-pc-border-primary/80 bg-pc-dark p-1 text-pc-text-primary transition hover:bg-pc-darker"
-              aria-label={isCollapsed ? "Expand" : "Collapse"}
-            >
-              <span
-                className={cn(
-                  "inline-block text-sm transition-transform",
-                  !isCollapsed && "rotate-180"
-                )}
+          {scriptNodeId && entityGuid ? (
+            <div className="flex items-center gap-1">
+              <Switch
+                checked={isEnabled}
+                label={
+                  isEnabled ? `Disable ${scriptName}` : `Enable ${scriptName}`
+                }
+                onChange={(enabled) =>
+                  updateComponentProperty(
+                    entityGuid,
+                    `components.script.scripts.${scriptName}.enabled`,
+                    enabled
+                  )
+                }
+                className="mr-1"
+              />
+              <button
+                type="button"
+                onPointerDownCapture={stopReactFlowEvent}
+                onClick={withStopPropagation(() => {
+                  removeScript(entityGuid, scriptName);
+                })}
+                className="rounded-full border border-pc-border-primary/80 bg-pc-dark px-2 py-0.5 text-sm text-pc-text-dark transition hover:bg-pc-darker hover:text-pc-error"
+                aria-label={`Remove ${scriptName}`}
+                title="Remove script"
+              >
+                ×
+              </button>
+              <button
+                type="button"
+                onPointerDownCapture={stopReactFlowEvent}
+                onClick={withStopPropagation(() => {
+                  toggleScriptPanel(scriptNodeId);
+                })}
+                className="rounded-full border border-pc-border-primary/80 bg-pc-dark p-1 text-pc-text-primary transition hover:bg-pc-darker"
+                aria-label={isCollapsed ? "Expand" : "Collapse"}
               >
-                ▾
-              </span>
-            </button>
+                <span
+                  className={cn(
+                    "inline-block text-sm transition-transform",
+                    !isCollapsed && "rotate-180"
+                  )}
+                >
+                  ▾
+                </span>
+              </button>
+            </div>
           ) : null}
         </div>
         {!isCollapsed && entityGuid && scriptName ? (
           <div className="mt-3 rounded-2xl border border-pc-border-primary/40 bg-pc-primary/50 p-3">
-            <ScriptAttributesPanel
-              entityGuid={entityGuid}
-              scriptName={scriptName}
-              attributes={data.attributes}
-            />
+            {bulk ? (
+              <>
+                <p className="mb-3 text-xs text-pc-text-active">
+                  Editing {bulk.entityGuids.length} selected entities
+                </p>
+                <ScriptAttributesPanel
+                  entityGuid={entityGuid}
+                  scriptName={scriptName}
+                  attributes={bulk.attributes}
+                  mixedAttributes={bulk.mixed}
+                  onAttributeChange={(attributeName, value) =>
+                    updateScriptAttributes(
+                      bulk.entityGuids,
+                      scriptName,
+                      attributeName,
+                      value
+                    )
+                  }
+                />
+              </>
+            ) : (
+              <ScriptAttributesPanel
+                entityGuid={entityGuid}
+                scriptName={scriptName}
+                attributes={data.attributes}
+              />
+            )}
           </div>
         ) : null}
       </div>
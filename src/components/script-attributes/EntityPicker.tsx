@@ -153,11 +153,20 @@ export const EntityPicker: React.FC<EntityPickerProps> = ({
     <div className="rounded-xl border border-dashed border-pc-border-primary/60 bg-pc-dark/60 px-3 py-3 text-xs">
       <div className="flex flex-col gap-2 justify-between">
         <div>
-          <p className="text-sm font-semibold text-pc-text-secondary">
-            {currentId
-              ? "Linked to: " + (currentEntity?.name || currentId)
-              : "No entity linked"}
-          </p>
+          {currentId && !currentEntity ? (
+            <p
+              className="text-sm font-semibold text-pc-error"
+              title={currentId}
+            >
+              Missing entity: {currentId}
+            </p>
+          ) : (
+            <p className="text-sm font-semibold text-pc-text-secondary">
+              {currentId
+                ? "Linked to: " + (currentEntity?.name || currentId)
+                : "No entity linked"}
+            </p>
+          )}
           <p className="text-pc-text-dark">
             Drag from the connector or search to pick a target entity.
           </p>
@@ -256,17 +265,17 @@ export const EntityPicker: React.FC<EntityPickerProps> = ({
             <>
               <button
                 type="button"
-                disabled={!currentId}
+                disabled={!currentEntity}
                 onPointerDownCapture={stopReactFlowEventWithPreventDefault}
                 onMouseUpCapture={stopReactFlowEventWithPreventDefault}
                 onClick={withStopPropagation(() => {
-                  if (currentId) {
+                  if (currentEntity) {
                     focusEntity(currentId);
                   }
                 })}
                 className={cn(
                   "rounded-md border px-2 py-1 font-semibold transition",
-                  currentId
+                  currentEntity
                     ? "border-pc-border-primary/60 text-pc-text-secondary hover:border-pc-text-active hover:text-pc-text-active"
                     : "cursor-not-allowed border-pc-border-primary/30 text-pc-text-dark"
                 )}
@@ -11,6 +11,11 @@ import { Handle, Position } from "reactflow";
 import "@playcanvas/pcui/styles";
 
 import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+import {
+  getEntitySlotHandleId,
+  getEntitySlots,
+} from "@/utils/entityReferences";
 import { stopReactFlowEvent } from "@/utils/events";
 import type {
   EntityPayload,
@@ -27,10 +32,24 @@ type ScriptAttributesPanelProps = {
   entityGuid: string;
   scriptName: string;
   attributes?: Record<string, ScriptAttributePayload>;
+  /**
+   * Attributes whose value differs between the instances being edited.
+   */
+  mixedAttributes?: Set<string>;
+  /**
+   * Replaces the single-instance write, e.g. to edit several entities.
+   */
+  onAttributeChange?: (attributeName: string, value: unknown) => void;
 };
 
 export const ScriptAttributesPanel = memo(
-  ({ entityGuid, scriptName, attributes = {} }: ScriptAttributesPanelProps) => {
+  ({
+    entityGuid,
+    scriptName,
+    attributes = {},
+    mixedAttributes,
+    onAttributeChange,
+  }: ScriptAttributesPanelProps) => {
     const updateScriptAttribute = useGraphEditorStore(
       (state) => state.updateScriptAttribute
     );
@@ -73,6 +92,8 @@ export const ScriptAttributesPanel = memo(
               scriptName={scriptName}
               updateScriptAttribute={updateScriptAttribute}
               entities={entities}
+              mixed={mixedAttributes?.has(name) ?? false}
+              onAttributeChange={onAttributeChange}
             />
           );
         })}
@@ -94,6 +115,8 @@ type AttributeFieldProps = {
     value: unknown
   ) => void;
   entities: Record<string, EntityPayload>;
+  mixed: boolean;
+  onAttributeChange?: (attributeName: string, value: unknown) => void;
 };
 
 const AttributeField = ({
@@ -103,12 +126,18 @@ const AttributeField = ({
   scriptName,
   updateScriptAttribute,
   entities,
+  mixed,
+  onAttributeChange,
 }: AttributeFieldProps) => {
   const { definition } = attribute;
   const label = definition?.title || attributeName;
   const description = definition?.description;
 
   const handleChange = (value: unknown) => {
+    if (onAttributeChange) {
+      onAttributeChange(attributeName, value);
+      return;
+    }
     updateScriptAttribute(entityGuid, scriptName, attributeName, value);
   };
 
@@ -116,7 +145,17 @@ const AttributeField = ({
     <div className=" rounded-2xl border border-pc-border-primary/50 bg-pc-dark p-3 text-sm text-pc-text-primary">
       <div className="relative flex items-center justify-between gap-2">
         <div>
-          <p className="font-semibold mb-1">{label}</p>
+          <p className="font-semibold mb-1">
+            {label}
+            {mixed ? (
+              <span
+                className="ml-2 rounded-full bg-pc-darkest px-2 py-0.5 text-[10px] font-normal uppercase text-pc-text-dark"
+                title="The selected entities have different values; editing sets all of them"
+              >
+                Mixed
+              </span>
+            ) : null}
+          </p>
           {description ? (
             <p className="text-xs text-pc-text-dark">{description}</p>
           ) : null}
@@ -127,18 +166,21 @@ const AttributeField = ({
           </span>
         ) : null}
 
-        {definition?.type === "entity" ? (
+        {definition?.type === "entity" || definition?.type === "asset" ? (
           <Handle
             type="source"
             position={Position.Right}
             id={attributeName}
-            className="absolute -right-2 top-1/2 h-3 w-3 bg-pc-text-active"
+            className={cn(
+              "absolute -right-2 top-1/2 h-3 w-3",
+              definition.type === "asset" ? "bg-sky-400" : "bg-pc-text-active"
+            )}
             style={{ transform: "translateY(-50%)" }}
             onConnect={(params) => {}}
           />
         ) : null}
       </div>
-      <div className="mt-3">
+      <div className={cn("mt-3", mixed && "opacity-60")}>
         <AttributeInput
           attribute={attribute}
           definition={definition}
@@ -149,10 +191,72 @@ const AttributeField = ({
           attributeKey={attributeName}
         />
       </div>
+      <EntitySlotHandles
+        attributeName={attributeName}
+        attribute={attribute}
+        entities={entities}
+      />
     </div>
   );
 };
 
+/**
+ * One wireable row per element of an entity array or entity field of a
+ * json-schema attribute, each with its own handle.
+ */
+const EntitySlotHandles = ({
+  attributeName,
+  attribute,
+  entities,
+}: {
+  attributeName: string;
+  attribute: ScriptAttributePayload;
+  entities: Record<string, EntityPayload>;
+}) => {
+  const slots = getEntitySlots(attribute).filter((slot) => slot.path.length);
+  if (!slots.length) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-3 space-y-1 border-t border-pc-border-primary/40 pt-2">
+      {slots.map(({ path, targetGuid }) => {
+        const handleId = getEntitySlotHandleId(attributeName, path);
+        const target = targetGuid ? entities[targetGuid] : undefined;
+        return (
+          <li
+            key={handleId}
+            className="relative flex items-center justify-between gap-2 text-xs"
+          >
+            <span className="font-mono text-pc-text-dark">
+              {handleId.slice(attributeName.length).replace(/^\./, "")}
+            </span>
+            <span
+              className={cn(
+                "truncate",
+                targetGuid && !target
+                  ? "text-pc-error"
+                  : target
+                  ? "text-pc-text-primary"
+                  : "italic text-pc-text-dark"
+              )}
+            >
+              {target ? target.name : targetGuid ? "Missing entity" : "None"}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={handleId}
+              className="absolute -right-2 top-1/2 h-2.5 w-2.5 bg-pc-text-active"
+              style={{ transform: "translateY(-50%)" }}
+            />
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
 export type AttributeInputProps = {
   value: any;
   attribute: ScriptAttributePayload;
@@ -165,7 +269,7 @@ export type AttributeInputProps = {
   parentContext?: Record<string, any>;
 };
 
-const AttributeInput = ({
+export const AttributeInput = ({
   value,
   attribute,
   definition,
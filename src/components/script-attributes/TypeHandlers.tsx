@@ -10,7 +10,11 @@ import type { WheelEvent } from "react";
 import { ColorPickerWrapper } from "./ColorPickerWrapper";
 import { Input } from "@/components/ui/Input";
 import { Slider } from "@/components/ui/Slider";
-import { stopReactFlowEvent } from "@/utils/events";
+import {
+  stopReactFlowEvent,
+  stopReactFlowEventWithPreventDefault,
+  withStopPropagation,
+} from "@/utils/events";
 import type {
   EntityPayload,
   ScriptAttributeDefinition,
@@ -453,7 +457,54 @@ const vectorHandler: TypeHandler = {
 const entityHandler: TypeHandler = {
   priority: 40,
   match: ({ type }) => type === "entity",
-  render: ({ value, entities, entityGuid, onChange }) => {
+  render: ({ value, definition, entities, entityGuid, onChange }) => {
+    // Entity arrays get one picker per element, each wired by its own edge
+    if (Array.isArray(value) || definition?.array === true) {
+      const items: unknown[] = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-xs font-semibold text-pc-text-secondary">
+                {index + 1}.
+              </span>
+              <div className="min-w-0 flex-1">
+                <EntityPicker
+                  value={item}
+                  entities={entities}
+                  entityGuid={entityGuid}
+                  onChange={(next) =>
+                    onChange(
+                      items.map((current, i) => (i === index ? next : current))
+                    )
+                  }
+                />
+              </div>
+              <button
+                type="button"
+                onPointerDownCapture={stopReactFlowEventWithPreventDefault}
+                onMouseUpCapture={stopReactFlowEventWithPreventDefault}
+                onClick={withStopPropagation(() =>
+                  onChange(items.filter((_, i) => i !== index))
+                )}
+                className="rounded-lg border border-pc-border-primary/60 px-2 py-1 text-xs text-pc-text-secondary hover:border-pc-error hover:text-pc-error"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onPointerDownCapture={stopReactFlowEventWithPreventDefault}
+            onMouseUpCapture={stopReactFlowEventWithPreventDefault}
+            onClick={withStopPropagation(() => onChange([...items, null]))}
+            className="w-full rounded-lg border border-dashed border-pc-border-primary/60 px-3 py-2 text-sm text-pc-text-secondary hover:border-pc-text-active"
+          >
+            + Add Entity
+          </button>
+        </div>
+      );
+    }
     return (
       <EntityPicker
         value={value}
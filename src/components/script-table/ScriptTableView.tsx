@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { AttributeInput } from "@/components/script-attributes/ScriptAttributesPanel";
+import { Input } from "@/components/ui/Input";
+import { useGraphEditorStore } from "@/stores/useGraphEditorStore";
+import { cn } from "@/utils/cn";
+import {
+  buildScriptTable,
+  compareCellValues,
+  diffCsvWithTable,
+  formatCellValue,
+  listSceneScripts,
+  toCsv,
+  type ScriptTableRow,
+} from "@/utils/scriptTable";
+
+/**
+ * Sort/filter key of the entity name column; attribute columns use their
+ * attribute name.
+ */
+const NAME_COLUMN = "__entity";
+
+type SortState = { column: string; direction: 1 | -1 } | null;
+
+type ImportReport = {
+  applied: number;
+  failed: number;
+  errors: string[];
+};
+
+const getCellValue = (row: ScriptTableRow, column: string) =>
+  column === NAME_COLUMN ? row.entityName : row.attributes[column]?.value;
+
+const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ScriptTableView = () => {
+  const entities = useGraphEditorStore((state) => state.entities);
+  const updateScriptAttribute = useGraphEditorStore(
+    (state) => state.updateScriptAttribute
+  );
+  const setSelectedEntity = useGraphEditorStore(
+    (state) => state.setSelectedEntity
+  );
+  const selectedEntityGuids = useGraphEditorStore(
+    (state) => state.selectedEntityGuids
+  );
+
+  const scripts = useMemo(() => listSceneScripts(entities), [entities]);
+  const [scriptName, setScriptName] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortState>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Fall back to the first script when none is chosen or it left the scene
+  useEffect(() => {
+    if (!scripts.some((script) => script.name === scriptName)) {
+      setScriptName(scripts[0]?.name ?? null);
+    }
+  }, [scripts, scriptName]);
+
+  useEffect(() => {
+    setSort(null);
+    setFilters({});
+    setImportReport(null);
+  }, [scriptName]);
+
+  const table = useMemo(
+    () =>
+      scriptName
+        ? buildScriptTable(entities, scriptName)
+        : { columns: [], rows: [] },
+    [entities, scriptName]
+  );
+
+  const visibleRows = useMemo(() => {
+    const activeFilters = Object.entries(filters)
+      .map(([column, text]) => [column, text.trim().toLowerCase()] as const)
+      .filter(([, text]) => text);
+    const rows = table.rows.filter((row) =>
+      activeFilters.every(([column, text]) =>
+        formatCellValue(getCellValue(row, column)).toLowerCase().includes(text)
+      )
+    );
+    if (sort) {
+      rows.sort(
+        (a, b) =>
+          compareCellValues(
+            getCellValue(a, sort.column),
+            getCellValue(b, sort.column)
+          ) * sort.direction
+      );
+    }
+    return rows;
+  }, [table, filters, sort]);
+
+  const toggleSort = (column: string) => {
+    setSort((current) =>
+      current?.column !== column
+        ? { column, direction: 1 }
+        : current.direction === 1
+        ? { column, direction: -1 }
+        : null
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    if (!scriptName) return;
+    const { updates, errors } = diffCsvWithTable(await file.text(), table);
+    const responses = await Promise.all(
+      updates.map((update) =>
+        updateScriptAttribute(
+          update.entityGuid,
+          scriptName,
+          update.attributeName,
+          update.value
+        )
+      )
+    );
+    setImportReport({
+      applied: responses.filter((response) => response.success).length,
+      failed: responses.filter((response) => !response.success).length,
+      errors,
+    });
+  };
+
+  if (!scriptName) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-pc-text-dark">
+        No scripts are used in this scene.
+      </div>
+    );
+  }
+
+  const columns = [
+    { key: NAME_COLUMN, label: "Entity" },
+    ...table.columns.map((column) => ({
+      key: column.name,
+      label: column.definition?.title || column.name,
+    })),
+  ];
+
+  return (
+    <div className="flex h-full flex-col text-sm text-pc-text-primary">
+      <div className="flex flex-wrap items-center gap-3 border-b border-pc-border-primary/40 px-6 py-3">
+        <label className="flex items-center gap-2">
+          <span className="text-pc-text-secondary">Script</span>
+          <select
+            value={scriptName}
+            onChange={(event) => setScriptName(event.target.value)}
+            className="rounded-md border border-pc-border-primary bg-pc-darkest px-2 py-1 text-pc-text-primary outline-none focus:ring-2 focus:ring-pc-text-active"
+          >
+            {scripts.map((script) => (
+              <option key={script.name} value={script.name}>
+                {script.name} ({script.count})
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-xs text-pc-text-dark">
+          {visibleRows.length} of {table.rows.length} instances
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => downloadCsv(`${scriptName}.csv`, toCsv(table))}
+            className="rounded-lg bg-pc-dark px-3 py-1.5 font-bold hover:bg-pc-darkest"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-lg bg-pc-dark px-3 py-1.5 font-bold hover:bg-pc-darkest"
+          >
+            Import CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {importReport && (
+        <div
+          role="status"
+          className="flex items-start justify-between gap-3 border-b border-pc-border-primary/40 bg-pc-dark px-6 py-2 text-xs"
+        >
+          <div>
+            <p>
+              Applied {importReport.applied} change
+              {importReport.applied === 1 ? "" : "s"}
+              {importReport.failed
+                ? `, ${importReport.failed} rejected by the editor`
+                : ""}
+              .
+            </p>
+            {importReport.errors.length > 0 && (
+              <ul className="mt-1 list-disc pl-5 text-pc-error">
+                {importReport.errors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => setImportReport(null)}
+            className="text-pc-text-dark hover:text-pc-text-primary"
+            aria-label="Dismiss import report"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto">
+        <table className="min-w-full border-separate border-spacing-0">
+          <thead className="sticky top-0 z-10 bg-pc-darkest">
+            <tr>
+              {columns.map((column) => (
+                <th
+                  key={column.key}
+                  className="min-w-[160px] border-b border-pc-border-primary/40 px-3 py-2 text-left align-top font-semibold"
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(column.key)}
+                    className="flex items-center gap-1 hover:text-pc-text-active"
+                  >
+                    {column.label}
+                    <span className="text-xs text-pc-text-dark">
+                      {sort?.column === column.key
+                        ? sort.direction === 1
+                          ? "▲"
+                          : "▼"
+                        : ""}
+                    </span>
+                  </button>
+                  <Input
+                    type="text"
+                    value={filters[column.key] ?? ""}
+                    onChange={(value) =>
+                      setFilters((current) => ({
+                        ...current,
+                        [column.key]: String(value),
+                      }))
+                    }
+                    placeholder="Filter"
+                    deferUpdate={false}
+                    className="mt-1 w-full text-xs font-normal"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <tr
+                key={row.entityGuid}
+                className={cn(
+                  "align-top",
+                  selectedEntityGuids.includes(row.entityGuid) &&
+                    "bg-pc-text-active/10"
+                )}
+              >
+                <td className="border-b border-pc-border-primary/20 px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSelectedEntity(row.entityGuid, row.entityName)
+                    }
+                    className="text-left font-semibold hover:text-pc-text-active"
+                    title="Select in the editor"
+                  >
+                    {row.entityName}
+                  </button>
+                </td>
+                {table.columns.map((column) => {
+                  const attribute = row.attributes[column.name];
+                  return (
+                    <td
+                      key={column.name}
+                      className="border-b border-pc-border-primary/20 px-3 py-2"
+                    >
+                      {attribute ? (
+                        <AttributeInput
+                          attribute={attribute}
+                          definition={attribute.definition}
+                          value={attribute.value}
+                          onChange={(value) =>
+                            updateScriptAttribute(
+                              row.entityGuid,
+                              scriptName,
+                              column.name,
+                              value
+                            )
+                          }
+                          entities={entities}
+                          entityGuid={row.entityGuid}
+                          attributeKey={column.name}
+                        />
+                      ) : (
+                        <span className="text-xs text-pc-text-dark">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import { stopReactFlowEvent, withStopPropagation } from "@/utils/events";
+import { cn } from "@/utils/cn";
+
+type SwitchProps = {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  className?: string;
+};
+
+export const Switch: React.FC<SwitchProps> = ({
+  checked,
+  onChange,
+  label,
+  className,
+}) => {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      title={label}
+      onPointerDownCapture={stopReactFlowEvent}
+      onClick={withStopPropagation(() => onChange(!checked))}
+      className={cn(
+        "relative inline-flex h-4 w-7 flex-shrink-0 items-center rounded-full border border-pc-border-primary/80 transition",
+        checked ? "bg-pc-text-active/80" : "bg-pc-darkest",
+        className
+      )}
+    >
+      <span
+        className={cn(
+          "inline-block h-3 w-3 rounded-full bg-pc-text-primary transition-transform",
+          checked ? "translate-x-3" : "translate-x-0.5"
+        )}
+      />
+    </button>
+  );
+};
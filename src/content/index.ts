@@ -1,6 +1,7 @@
-import type { GraphResponse } from "@/types/messaging";
+import type { GraphResponse, HistoryStatePayload } from "@/types/messaging";
 
 const REQUEST_TIMEOUT_MS = 5000;
+const PING_TIMEOUT_MS = 2000;
 
 type PendingRequest = {
   timeoutId: number;
@@ -24,8 +25,22 @@ function resolveRequest(requestId: string, payload: GraphResponse) {
   pendingRequests.delete(requestId);
 }
 
+// After the extension is reloaded or updated, this content script keeps
+// running in the page but can no longer reach the extension.
+function isExtensionContextValid() {
+  try {
+    return !!chrome?.runtime?.id;
+  } catch {
+    return false;
+  }
+}
+
 // Helper function to safely send messages, ignoring errors when popup is not open
 function safeSendMessage(message: any) {
+  if (!isExtensionContextValid()) {
+    window.removeEventListener("message", handleWindowMessage);
+    return;
+  }
   if (!chrome?.runtime?.sendMessage) {
     return;
   }
@@ -45,7 +60,7 @@ function safeSendMessage(message: any) {
   }
 }
 
-window.addEventListener("message", (event: MessageEvent) => {
+function handleWindowMessage(event: MessageEvent) {
   if (event.source !== window) {
     return;
   }
@@ -64,6 +79,14 @@ window.addEventListener("message", (event: MessageEvent) => {
     return;
   }
 
+  if (data?.type === "PC_GRAPH_BRIDGE_READY") {
+    safeSendMessage({
+      type: "GRAPH_BRIDGE_READY",
+      payload: (data as { payload?: unknown }).payload,
+    });
+    return;
+  }
+
   if (data?.type === "PC_GRAPH_SELECTION") {
     safeSendMessage({
       type: "GRAPH_PUSH_DATA",
@@ -85,30 +108,23 @@ window.addEventListener("message", (event: MessageEvent) => {
     return;
   }
 
-  if (data?.type === "PC_GRAPH_ENTITY_ADDED") {
-    const mutationPayload = (data as { payload?: unknown }).payload;
-    safeSendMessage({
-      type: "GRAPH_ENTITY_ADDED",
-      payload: mutationPayload,
-    });
-    return;
-  }
-
-  if (data?.type === "PC_GRAPH_ENTITY_UPDATED") {
-    const mutationPayload = (data as { payload?: unknown }).payload;
+  if (data?.type === "PC_GRAPH_PATCH") {
+    const patchPayload = (data as { payload?: unknown }).payload;
     safeSendMessage({
-      type: "GRAPH_ENTITY_UPDATED",
-      payload: mutationPayload,
+      type: "GRAPH_PATCH",
+      payload: patchPayload,
     });
     return;
   }
 
-  if (data?.type === "PC_GRAPH_ENTITY_REMOVED") {
-    const mutationPayload = (data as { payload?: unknown }).payload;
-    safeSendMessage({
-      type: "GRAPH_ENTITY_REMOVED",
-      payload: mutationPayload,
-    });
+  if (data?.type === "PC_GRAPH_HISTORY") {
+    const historyPayload = (data as { payload?: HistoryStatePayload }).payload;
+    if (historyPayload) {
+      safeSendMessage({
+        type: "GRAPH_HISTORY_UPDATE",
+        payload: historyPayload,
+      });
+    }
     return;
   }
 
@@ -134,7 +150,11 @@ window.addEventListener("message", (event: MessageEvent) => {
   if (data?.type === "PC_GRAPH_SELECTION_UPDATE") {
     const selectionData = data as {
       type: string;
-      payload?: { entityGuid: string | null; entityName?: string | null };
+      payload?: {
+        entityGuid: string | null;
+        entityName?: string | null;
+        entityGuids?: string[];
+      };
     };
     safeSendMessage({
       type: "GRAPH_UPDATE_SELECTION",
@@ -158,23 +178,59 @@ window.addEventListener("message", (event: MessageEvent) => {
     }
     return;
   }
-});
+}
+
+window.addEventListener("message", handleWindowMessage);
+
+// Mutations are forwarded to the editor bridge and acknowledged only once
+// the bridge has actually applied (or rejected) them.
+const MUTATION_MESSAGE_TYPES = new Set([
+  "GRAPH_SET_SELECTION",
+  "GRAPH_UPDATE_ATTRIBUTE",
+  "GRAPH_UPDATE_ATTRIBUTES",
+  "GRAPH_UPDATE_COMPONENT_PROPERTY",
+  "GRAPH_UPDATE_ENTITY_PROPERTY",
+  "GRAPH_SET_COLLAPSE_STATE",
+  "GRAPH_REPARENT_ENTITY",
+  "GRAPH_FOCUS_ENTITY",
+  "GRAPH_ADD_ENTITY",
+  "GRAPH_RENAME_ENTITY",
+  "GRAPH_DELETE_ENTITIES",
+  "GRAPH_DUPLICATE_ENTITIES",
+  "GRAPH_ADD_SCRIPT",
+  "GRAPH_REMOVE_SCRIPT",
+  "GRAPH_SET_SCRIPT_ORDER",
+  "GRAPH_HISTORY_STEP",
+]);
+
+function registerPendingRequest(
+  sendResponse: (payload: GraphResponse) => void,
+  timeoutError: string,
+  timeoutMs = REQUEST_TIMEOUT_MS
+) {
+  const requestId = createRequestId();
+  const timeoutId = window.setTimeout(() => {
+    resolveRequest(requestId, {
+      success: false,
+      error: timeoutError,
+    });
+  }, timeoutMs);
+
+  pendingRequests.set(requestId, {
+    timeoutId,
+    resolve: sendResponse,
+  });
+
+  return requestId;
+}
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   // Handle data requests (existing functionality)
   if (message?.type === "GRAPH_REQUEST_DATA") {
-    const requestId = createRequestId();
-    const timeoutId = window.setTimeout(() => {
-      resolveRequest(requestId, {
-        success: false,
-        error: "Timed out waiting for PlayCanvas editor",
-      });
-    }, REQUEST_TIMEOUT_MS);
-
-    pendingRequests.set(requestId, {
-      timeoutId,
-      resolve: sendResponse,
-    });
+    const requestId = registerPendingRequest(
+      sendResponse,
+      "Timed out waiting for PlayCanvas editor"
+    );
 
     window.postMessage(
       {
@@ -189,18 +245,10 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 
   // Handle assets requests
   if (message?.type === "GRAPH_REQUEST_ASSETS") {
-    const requestId = createRequestId();
-    const timeoutId = window.setTimeout(() => {
-      resolveRequest(requestId, {
-        success: false,
-        error: "Timed out waiting for assets",
-      });
-    }, REQUEST_TIMEOUT_MS);
-
-    pendingRequests.set(requestId, {
-      timeoutId,
-      resolve: sendResponse,
-    });
+    const requestId = registerPendingRequest(
+      sendResponse,
+      "Timed out waiting for assets"
+    );
 
     window.postMessage(
       {
@@ -214,18 +262,71 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
-  // Forward selection and attribute updates to editor bridge
-  if (
-    message?.type === "GRAPH_SET_SELECTION" ||
-    message?.type === "GRAPH_UPDATE_ATTRIBUTE" ||
-    message?.type === "GRAPH_SET_COLLAPSE_STATE" ||
-    message?.type === "GRAPH_REPARENT_ENTITY" ||
-    message?.type === "GRAPH_FOCUS_ENTITY" ||
-    message?.type === "GRAPH_ADD_ENTITY"
-  ) {
-    window.postMessage(message, "*");
-    sendResponse({ success: true });
-    return false;
+  // Handle script list requests
+  if (message?.type === "GRAPH_REQUEST_SCRIPTS") {
+    const requestId = registerPendingRequest(
+      sendResponse,
+      "Timed out waiting for scripts"
+    );
+
+    window.postMessage(
+      {
+        type: "GRAPH_REQUEST_SCRIPTS",
+        requestId,
+      },
+      "*"
+    );
+
+    return true;
+  }
+
+  // Handle heartbeat pings from the graph page
+  if (message?.type === "GRAPH_PING") {
+    const requestId = registerPendingRequest(
+      sendResponse,
+      "Editor bridge did not answer the heartbeat",
+      PING_TIMEOUT_MS
+    );
+
+    window.postMessage(
+      {
+        type: "PC_GRAPH_PING",
+        requestId,
+      },
+      "*"
+    );
+
+    return true;
+  }
+
+  // Handle editor info requests (used by the graph page tab switcher)
+  if (message?.type === "GRAPH_REQUEST_EDITOR_INFO") {
+    const requestId = registerPendingRequest(
+      sendResponse,
+      "Timed out waiting for editor info"
+    );
+
+    window.postMessage(
+      {
+        type: "GRAPH_REQUEST_EDITOR_INFO",
+        requestId,
+      },
+      "*"
+    );
+
+    return true;
+  }
+
+  // Forward mutations to editor bridge and wait for its acknowledgement
+  if (MUTATION_MESSAGE_TYPES.has(message?.type)) {
+    const requestId = registerPendingRequest(
+      sendResponse,
+      `Timed out waiting for PlayCanvas editor to apply ${message.type}`
+    );
+
+    window.postMessage({ ...message, requestId }, "*");
+
+    return true;
   }
 
   return false;
@@ -3,10 +3,11 @@ import type { Node } from "reactflow";
 
 import { useGraphEditorStore } from "../useGraphEditorStore";
 import type { EntityPayload } from "@/types/messaging";
+import { findBrokenReferences } from "@/utils/brokenReferences";
 import { sendRuntimeMessage } from "@/utils/runtime";
 
 vi.mock("@/utils/runtime", () => ({
-  sendRuntimeMessage: vi.fn().mockResolvedValue(undefined),
+  sendRuntimeMessage: vi.fn().mockResolvedValue({ success: true }),
 }));
 
 const baseEntities: Record<string, EntityPayload> = {
@@ -106,6 +107,26 @@ describe("useGraphEditorStore.reparentEntity", () => {
     );
     warnSpy.mockRestore();
   });
+
+  it("resolves with the bridge failure and surfaces it as a mutation error", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: false,
+      error: "Cannot reparent: parent root not found",
+    });
+    const { reparentEntity } = useGraphEditorStore.getState();
+
+    const result = await reparentEntity("level-2", "root");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Cannot reparent: parent root not found",
+    });
+    expect(useGraphEditorStore.getState().mutationError).toBe(
+      "Failed to reparent Level 2: Cannot reparent: parent root not found"
+    );
+    errorSpy.mockRestore();
+  });
 });
 
 describe("useGraphEditorStore.updateScriptAttribute", () => {
@@ -135,4 +156,885 @@ describe("useGraphEditorStore.updateScriptAttribute", () => {
       .nodes.find((node) => node.id === "level-1-moveScript");
     expect(scriptNode?.data?.attributes?.target?.value).toBe("level-2");
   });
+
+  it("rolls back the optimistic value when the editor rejects the write", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: false,
+      error: "You do not have write access to this project",
+    });
+    const { updateScriptAttribute } = useGraphEditorStore.getState();
+
+    const result = await updateScriptAttribute(
+      "level-1",
+      "moveScript",
+      "target",
+      "level-2"
+    );
+
+    expect(result.success).toBe(false);
+    const state = useGraphEditorStore.getState();
+    expect(
+      state.entities["level-1"].components?.script?.scripts?.moveScript
+        ?.attributes?.target?.value
+    ).toBeNull();
+    expect(state.mutationError).toBe(
+      "Failed to update moveScript.target: You do not have write access to this project"
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe("useGraphEditorStore.resyncGraphData", () => {
+  it("keeps the graph's collapse state and selection after the editor reloads", () => {
+    useGraphEditorStore.setState({
+      collapsedState: { "level-1": true },
+      selectedEntityGuid: "level-2",
+      selectedEntityName: "Level 2",
+    });
+    const { resyncGraphData } = useGraphEditorStore.getState();
+
+    resyncGraphData({
+      rootGuid: "root",
+      entities: { ...baseEntities },
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+      collapsedState: {},
+    });
+
+    const state = useGraphEditorStore.getState();
+    expect(state.collapsedState).toEqual({ "level-1": true });
+    expect(state.selectedEntityGuid).toBe("level-2");
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_SET_COLLAPSE_STATE",
+      payload: { entityGuid: "level-1", collapsed: true },
+    });
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_SET_SELECTION",
+      payload: { entityGuid: "level-2", entityGuids: ["level-2"] },
+    });
+  });
+});
+
+describe("useGraphEditorStore.applyScenePatch", () => {
+  beforeEach(() => {
+    useGraphEditorStore.setState({ patchSessionId: "s1", lastSequence: 3 });
+  });
+
+  it("applies the next patch in sequence", () => {
+    const { applyScenePatch } = useGraphEditorStore.getState();
+
+    const result = applyScenePatch({
+      sessionId: "s1",
+      sequence: 4,
+      ops: [
+        { op: "entity:set", guid: "level-2", path: "name", value: "Renamed" },
+      ],
+    });
+
+    const state = useGraphEditorStore.getState();
+    expect(result).toBe("applied");
+    expect(state.lastSequence).toBe(4);
+    expect(state.entities["level-2"].name).toBe("Renamed");
+  });
+
+  it("ignores stale patches and reports a gap only once", () => {
+    const { applyScenePatch } = useGraphEditorStore.getState();
+
+    expect(applyScenePatch({ sessionId: "s1", sequence: 3, ops: [] })).toBe(
+      "ignored"
+    );
+    expect(applyScenePatch({ sessionId: "s1", sequence: 6, ops: [] })).toBe(
+      "gap"
+    );
+    expect(applyScenePatch({ sessionId: "s1", sequence: 7, ops: [] })).toBe(
+      "ignored"
+    );
+    expect(useGraphEditorStore.getState().awaitingSnapshot).toBe(true);
+  });
+
+  it("reports the gap again when the snapshot request fails", () => {
+    const { applyScenePatch, setError } = useGraphEditorStore.getState();
+
+    expect(applyScenePatch({ sessionId: "s1", sequence: 6, ops: [] })).toBe(
+      "gap"
+    );
+    setError("Timed out waiting for the editor");
+
+    expect(applyScenePatch({ sessionId: "s1", sequence: 7, ops: [] })).toBe(
+      "gap"
+    );
+  });
+
+  it("prunes selection when the selected entity is removed", () => {
+    useGraphEditorStore.setState({
+      selectedEntityGuid: "level-2",
+      selectedEntityName: "Level 2",
+    });
+    const { applyScenePatch } = useGraphEditorStore.getState();
+
+    applyScenePatch({
+      sessionId: "s1",
+      sequence: 4,
+      ops: [{ op: "entity:remove", guid: "level-2" }],
+    });
+
+    const state = useGraphEditorStore.getState();
+    expect(state.entities["level-2"]).toBeUndefined();
+    expect(state.entities["level-1"].children).toEqual([]);
+    expect(state.selectedEntityGuid).toBeNull();
+  });
+});
+
+describe("useGraphEditorStore.updateComponentProperty", () => {
+  beforeEach(() => {
+    useGraphEditorStore.setState((state) => ({
+      entities: {
+        ...state.entities,
+        "level-2": {
+          ...state.entities["level-2"],
+          components: { light: { type: "omni", intensity: 1 } },
+        },
+      },
+    }));
+  });
+
+  it("writes the property locally and forwards the full path", () => {
+    const { updateComponentProperty } = useGraphEditorStore.getState();
+
+    updateComponentProperty("level-2", "components.light.intensity", 2.5);
+
+    const state = useGraphEditorStore.getState();
+    expect(state.entities["level-2"].components.light.intensity).toBe(2.5);
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_UPDATE_COMPONENT_PROPERTY",
+      payload: {
+        entityGuid: "level-2",
+        path: "components.light.intensity",
+        value: 2.5,
+      },
+    });
+  });
+
+  it("rolls back when the editor rejects the write", async () => {
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: false,
+      error: "Read-only project",
+    });
+    const { updateComponentProperty } = useGraphEditorStore.getState();
+
+    await updateComponentProperty("level-2", "components.light.intensity", 9);
+
+    const state = useGraphEditorStore.getState();
+    expect(state.entities["level-2"].components.light.intensity).toBe(1);
+    expect(state.mutationError).toBe(
+      "Failed to update light.intensity: Read-only project"
+    );
+  });
+});
+
+describe("useGraphEditorStore.updateEntityProperty", () => {
+  it("updates the entity, dims its subtree and forwards the change", () => {
+    const { updateEntityProperty } = useGraphEditorStore.getState();
+
+    updateEntityProperty("level-1", "enabled", false);
+
+    const state = useGraphEditorStore.getState();
+    expect(state.entities["level-1"].enabled).toBe(false);
+    const level2Node = state.nodes.find((node) => node.id === "level-2");
+    expect(level2Node?.data.disabled).toBe(true);
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_UPDATE_ENTITY_PROPERTY",
+      payload: { entityGuid: "level-1", property: "enabled", value: false },
+    });
+  });
+});
+
+describe("useGraphEditorStore.deleteEntities", () => {
+  it("asks the editor to delete the entities in one request", async () => {
+    const { deleteEntities } = useGraphEditorStore.getState();
+
+    await deleteEntities(["level-2", "level-1"]);
+
+    // level-2 goes with its parent, so only level-1 is sent
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_DELETE_ENTITIES",
+      payload: { entityGuids: ["level-1"] },
+    });
+    // Removal arrives through the entity:remove patch, not optimistically
+    expect(useGraphEditorStore.getState().entities["level-1"]).toBeDefined();
+  });
+
+  it("refuses to delete the scene root", async () => {
+    const { deleteEntities } = useGraphEditorStore.getState();
+
+    await deleteEntities(["level-1", "root"]);
+
+    expect(sendRuntimeMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: "GRAPH_DELETE_ENTITIES" })
+    );
+  });
+});
+
+describe("useGraphEditorStore.duplicateEntities", () => {
+  const levelOneNode = (position: { x: number; y: number }): Node => ({
+    id: "level-1",
+    type: "entity",
+    position,
+    data: { label: "Level 1" },
+    style: { width: 300, height: 200 },
+  });
+
+  it("places copies next to their sources using the manual layout", async () => {
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: true,
+      data: {
+        duplicates: [
+          { sourceGuid: "level-1", guid: "level-1-copy" },
+          { sourceGuid: "level-2", guid: "level-2-copy" },
+        ],
+      },
+    });
+    useGraphEditorStore.setState({
+      manualPositions: {
+        "level-1": { x: 100, y: 50, parentId: null },
+        "level-2": { x: 24, y: 200, parentId: "level-1" },
+        "level-1-moveScript": { x: 24, y: 90, parentId: "level-1" },
+      },
+      nodes: [levelOneNode({ x: 100, y: 50 })],
+    });
+    const { duplicateEntities } = useGraphEditorStore.getState();
+
+    await duplicateEntities(["level-1"]);
+
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_DUPLICATE_ENTITIES",
+      payload: { entityGuids: ["level-1"] },
+    });
+    const { manualPositions } = useGraphEditorStore.getState();
+    expect(manualPositions["level-1-copy"]).toEqual({
+      x: 448,
+      y: 50,
+      parentId: null,
+    });
+    expect(manualPositions["level-2-copy"]).toEqual({
+      x: 24,
+      y: 200,
+      parentId: "level-1-copy",
+    });
+    expect(manualPositions["level-1-copy-moveScript"]).toEqual({
+      x: 24,
+      y: 90,
+      parentId: "level-1-copy",
+    });
+  });
+
+  it("places copies of sources without a manual position", async () => {
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: true,
+      data: { duplicates: [{ sourceGuid: "level-1", guid: "level-1-copy" }] },
+    });
+    useGraphEditorStore.setState({
+      manualPositions: {},
+      nodes: [levelOneNode({ x: 0, y: 20 })],
+    });
+    const { duplicateEntities } = useGraphEditorStore.getState();
+
+    await duplicateEntities(["level-1"]);
+
+    expect(useGraphEditorStore.getState().manualPositions).toEqual({
+      "level-1-copy": { x: 348, y: 20, parentId: null },
+    });
+  });
+});
+
+describe("useGraphEditorStore.renameEntity", () => {
+  it("renames the node and forwards the trimmed name", () => {
+    const { renameEntity } = useGraphEditorStore.getState();
+
+    renameEntity("level-2", "  Enemy  ");
+
+    const state = useGraphEditorStore.getState();
+    const node = state.nodes.find((candidate) => candidate.id === "level-2");
+    expect(node?.data.label).toBe("Enemy");
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_RENAME_ENTITY",
+      payload: { entityGuid: "level-2", name: "Enemy" },
+    });
+  });
+
+  it("restores the previous name when the editor rejects it", async () => {
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: false,
+      error: "Read-only project",
+    });
+    const { renameEntity } = useGraphEditorStore.getState();
+
+    await renameEntity("level-2", "Enemy");
+
+    const state = useGraphEditorStore.getState();
+    expect(state.entities["level-2"].name).toBe("Level 2");
+    expect(state.mutationError).toBe(
+      "Failed to rename Level 2: Read-only project"
+    );
+  });
+});
+
+describe("useGraphEditorStore.addScript / removeScript", () => {
+  it("opens the attribute panel of a newly added script", async () => {
+    const { addScript } = useGraphEditorStore.getState();
+
+    await addScript("level-2", "health");
+
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_ADD_SCRIPT",
+      payload: { entityGuid: "level-2", scriptName: "health" },
+    });
+    expect(
+      useGraphEditorStore.getState().scriptPanelState["level-2-health"]
+    ).toBe(false);
+  });
+
+  it("drops the selection of a removed script node", async () => {
+    useGraphEditorStore.setState({
+      selectedEntityGuid: "level-1",
+      selectedScriptNodeId: "level-1-moveScript",
+    });
+    const { removeScript } = useGraphEditorStore.getState();
+
+    await removeScript("level-1", "moveScript");
+
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_REMOVE_SCRIPT",
+      payload: { entityGuid: "level-1", scriptName: "moveScript" },
+    });
+    expect(useGraphEditorStore.getState().selectedScriptNodeId).toBeNull();
+  });
+});
+
+describe("useGraphEditorStore.reorderScripts", () => {
+  beforeEach(() => {
+    useGraphEditorStore.setState((state) => ({
+      entities: {
+        ...state.entities,
+        "level-2": {
+          ...state.entities["level-2"],
+          components: {
+            script: {
+              order: ["spawn", "move"],
+              scripts: {
+                move: { enabled: true, attributes: {} },
+                spawn: { enabled: true, attributes: {} },
+              },
+            },
+          },
+        },
+      },
+      manualPositions: {
+        "level-2-move": { x: 300, y: 400, parentId: "level-2" },
+      },
+    }));
+  });
+
+  it("stacks script nodes in the new order and forwards it", () => {
+    const { reorderScripts } = useGraphEditorStore.getState();
+
+    reorderScripts("level-2", ["move", "spawn"]);
+
+    const state = useGraphEditorStore.getState();
+    const stackY = (id: string) =>
+      state.nodes.find((node) => node.id === id)!.position.y;
+    expect(stackY("level-2-move")).toBeLessThan(stackY("level-2-spawn"));
+    expect(state.manualPositions["level-2-move"]).toBeUndefined();
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_SET_SCRIPT_ORDER",
+      payload: { entityGuid: "level-2", order: ["move", "spawn"] },
+    });
+  });
+
+  it("only snaps the stack back when the order is unchanged", () => {
+    const { reorderScripts } = useGraphEditorStore.getState();
+
+    reorderScripts("level-2", ["spawn", "move"]);
+
+    expect(
+      useGraphEditorStore.getState().manualPositions["level-2-move"]
+    ).toBeUndefined();
+    expect(sendRuntimeMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: "GRAPH_SET_SCRIPT_ORDER" })
+    );
+  });
+});
+
+describe("disabled scripts", () => {
+  it("dash the entity edges of a disabled script", () => {
+    const { updateScriptAttribute, updateComponentProperty } =
+      useGraphEditorStore.getState();
+    updateScriptAttribute("level-1", "moveScript", "target", "level-2");
+
+    updateComponentProperty(
+      "level-1",
+      "components.script.scripts.moveScript.enabled",
+      false
+    );
+
+    const state = useGraphEditorStore.getState();
+    const edge = state.edges.find(
+      (candidate) => candidate.source === "level-1-moveScript"
+    );
+    expect(edge?.animated).toBe(false);
+    expect(edge?.style?.strokeDasharray).toBe("6 4");
+    const scriptNode = state.nodes.find(
+      (node) => node.id === "level-1-moveScript"
+    );
+    expect(scriptNode?.data.enabled).toBe(false);
+  });
+});
+
+describe("multi-selection", () => {
+  const entityNode = (id: string): Node => ({
+    id,
+    type: "entity",
+    position: { x: 0, y: 0 },
+    data: {},
+  });
+
+  beforeEach(() => {
+    useGraphEditorStore.setState({
+      nodes: [entityNode("level-1"), entityNode("level-2")],
+    });
+  });
+
+  it("collects box-selected entities and forwards them to the editor", () => {
+    const { onNodesChange } = useGraphEditorStore.getState();
+
+    onNodesChange([
+      { type: "select", id: "level-1", selected: true },
+      { type: "select", id: "level-2", selected: true },
+    ]);
+
+    const state = useGraphEditorStore.getState();
+    expect(state.selectedEntityGuid).toBe("level-1");
+    expect(state.selectedEntityGuids).toEqual(["level-1", "level-2"]);
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_SET_SELECTION",
+      payload: { entityGuid: "level-1", entityGuids: ["level-1", "level-2"] },
+    });
+  });
+
+  it("mirrors an editor selection without echoing it back", () => {
+    const { setSelectedEntities } = useGraphEditorStore.getState();
+
+    setSelectedEntities(["level-2", "level-1", "missing"], {
+      broadcast: false,
+    });
+
+    const state = useGraphEditorStore.getState();
+    expect(state.selectedEntityGuids).toEqual(["level-2", "level-1"]);
+    expect(state.selectedEntityName).toBe("Level 2");
+    expect(state.nodes.every((node) => node.selected)).toBe(true);
+    expect(sendRuntimeMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("useGraphEditorStore.updateScriptAttributes", () => {
+  beforeEach(() => {
+    const level1 = baseEntities["level-1"];
+    useGraphEditorStore.setState({
+      entities: {
+        ...baseEntities,
+        "level-2": {
+          ...baseEntities["level-2"],
+          components: level1.components,
+        },
+      },
+    });
+  });
+
+  const targetOf = (guid: string) =>
+    useGraphEditorStore.getState().entities[guid].components.script.scripts
+      .moveScript.attributes.target.value;
+
+  it("writes every instance and forwards them in one message", async () => {
+    const { updateScriptAttributes } = useGraphEditorStore.getState();
+
+    await updateScriptAttributes(
+      ["level-1", "level-2", "root"],
+      "moveScript",
+      "target",
+      "root"
+    );
+
+    expect(targetOf("level-1")).toBe("root");
+    expect(targetOf("level-2")).toBe("root");
+    expect(sendRuntimeMessage).toHaveBeenCalledTimes(1);
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_UPDATE_ATTRIBUTES",
+      payload: {
+        entityGuids: ["level-1", "level-2"],
+        scriptName: "moveScript",
+        attributeName: "target",
+        value: "root",
+      },
+    });
+  });
+
+  it("restores every instance when the editor rejects the write", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: false,
+      error: "Cannot update attribute: script \"moveScript\" not found",
+    });
+    const { updateScriptAttributes } = useGraphEditorStore.getState();
+
+    await updateScriptAttributes(
+      ["level-1", "level-2"],
+      "moveScript",
+      "target",
+      "root"
+    );
+
+    expect(targetOf("level-1")).toBeNull();
+    expect(targetOf("level-2")).toBeNull();
+    expect(useGraphEditorStore.getState().mutationError).toContain(
+      "Failed to update moveScript.target"
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe("useGraphEditorStore.stepEditorHistory", () => {
+  it("asks the editor to undo and keeps the state it reports back", async () => {
+    const history = {
+      canUndo: false,
+      canRedo: true,
+      entries: [{ name: "Update moveScript.target", done: false }],
+    };
+    vi.mocked(sendRuntimeMessage).mockResolvedValueOnce({
+      success: true,
+      data: history,
+    });
+    const { stepEditorHistory } = useGraphEditorStore.getState();
+
+    await stepEditorHistory("undo");
+
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_HISTORY_STEP",
+      payload: { direction: "undo", steps: 1 },
+    });
+    expect(useGraphEditorStore.getState().editorHistory).toEqual(history);
+  });
+});
+
+describe("layout history", () => {
+  it("undoes and redoes a node drag without involving the editor", () => {
+    const { onNodesChange } = useGraphEditorStore.getState();
+
+    onNodesChange([
+      {
+        type: "position",
+        id: "level-1-moveScript",
+        position: { x: 120, y: 40 },
+        dragging: false,
+      },
+    ]);
+    expect(
+      useGraphEditorStore.getState().manualPositions["level-1-moveScript"]
+    ).toMatchObject({ x: 120, y: 40 });
+
+    useGraphEditorStore.getState().undoLayout();
+    expect(useGraphEditorStore.getState().manualPositions).toEqual({});
+
+    useGraphEditorStore.getState().redoLayout();
+    expect(
+      useGraphEditorStore.getState().manualPositions["level-1-moveScript"]
+    ).toMatchObject({ x: 120, y: 40 });
+    expect(sendRuntimeMessage).not.toHaveBeenCalled();
+  });
+
+  it("resets the manual positions of a subtree only", () => {
+    useGraphEditorStore.setState({
+      manualPositions: {
+        root: { x: 0, y: 0, parentId: null },
+        "level-2": { x: 10, y: 10, parentId: "level-1" },
+        "level-1-moveScript": { x: 5, y: 5, parentId: "level-1" },
+      },
+    });
+
+    useGraphEditorStore.getState().resetSubtreeLayout("level-1");
+
+    const state = useGraphEditorStore.getState();
+    expect(Object.keys(state.manualPositions)).toEqual(["root"]);
+    expect(state.layoutHistory.past).toHaveLength(1);
+  });
+});
+
+describe("asset attributes", () => {
+  const withMaterials = (value: unknown[]) => ({
+    ...baseEntities,
+    "level-1": {
+      ...baseEntities["level-1"],
+      components: {
+        script: {
+          scripts: {
+            moveScript: {
+              enabled: true,
+              attributes: {
+                materials: {
+                  type: "asset",
+                  value,
+                  definition: { type: "asset", array: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  it("draws one edge per array element to shared asset nodes", () => {
+    useGraphEditorStore.getState().setGraphData({
+      rootGuid: "root",
+      entities: withMaterials([7, null, 7, 9]),
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+    });
+
+    const state = useGraphEditorStore.getState();
+    const assetNodes = state.nodes.filter((node) => node.type === "asset");
+    expect(assetNodes.map((node) => node.id)).toEqual(["asset:7", "asset:9"]);
+    expect(
+      state.edges
+        .filter((edge) => edge.target.startsWith("asset:"))
+        .map((edge) => [edge.target, edge.data.arrayIndex])
+    ).toEqual([
+      ["asset:7", 0],
+      ["asset:7", 2],
+      ["asset:9", 3],
+    ]);
+  });
+
+  it("appends a dropped asset and empties only the deleted element", () => {
+    useGraphEditorStore.getState().setGraphData({
+      rootGuid: "root",
+      entities: withMaterials([7, 9]),
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+    });
+    useGraphEditorStore.setState({
+      assets: { "11": { id: 11, name: "Rock", type: "material" } },
+    });
+    const materials = () =>
+      useGraphEditorStore.getState().entities["level-1"].components.script
+        .scripts.moveScript.attributes.materials.value;
+
+    useGraphEditorStore
+      .getState()
+      .assignAsset("level-1-moveScript", "materials", "11");
+    expect(materials()).toEqual([7, 9, 11]);
+
+    const edge = useGraphEditorStore
+      .getState()
+      .edges.find((candidate) => candidate.data?.arrayIndex === 0);
+    useGraphEditorStore
+      .getState()
+      .onEdgesChange([{ type: "remove", id: edge!.id }]);
+    expect(materials()).toEqual([null, 9, 11]);
+  });
+});
+
+describe("entity slots", () => {
+  const withAttributes = (attributes: Record<string, unknown>) => ({
+    ...baseEntities,
+    "level-1": {
+      ...baseEntities["level-1"],
+      components: {
+        script: {
+          scripts: {
+            moveScript: { enabled: true, attributes },
+          },
+        },
+      },
+    },
+  });
+  const attributeValue = (name: string) =>
+    useGraphEditorStore.getState().entities["level-1"].components.script
+      .scripts.moveScript.attributes[name].value;
+
+  it("draws one edge per entity array element and json-schema field", () => {
+    useGraphEditorStore.getState().setGraphData({
+      rootGuid: "root",
+      entities: withAttributes({
+        targets: {
+          type: "entity",
+          value: ["level-2", null, "root"],
+          definition: { type: "entity", array: true },
+        },
+        waypoints: {
+          type: "json",
+          value: [{ target: "level-2" }, { target: null }],
+          definition: {
+            type: "json",
+            array: true,
+            schema: [{ name: "target", type: "entity" }],
+          },
+        },
+      }),
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+    });
+
+    expect(
+      useGraphEditorStore
+        .getState()
+        .edges.filter((edge) => edge.source === "level-1-moveScript")
+        .map((edge) => [edge.sourceHandle, edge.target])
+    ).toEqual([
+      ["targets[0]", "level-2"],
+      ["targets[2]", "root"],
+      ["waypoints[0].target", "level-2"],
+    ]);
+  });
+
+  it("clears and wires single elements through their handles", () => {
+    useGraphEditorStore.getState().setGraphData({
+      rootGuid: "root",
+      entities: withAttributes({
+        targets: {
+          type: "entity",
+          value: ["level-2", "root"],
+          definition: { type: "entity", array: true },
+        },
+      }),
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+    });
+
+    const edge = useGraphEditorStore
+      .getState()
+      .edges.find((candidate) => candidate.sourceHandle === "targets[0]");
+    useGraphEditorStore
+      .getState()
+      .onEdgesChange([{ type: "remove", id: edge!.id }]);
+    expect(attributeValue("targets")).toEqual([null, "root"]);
+
+    useGraphEditorStore.getState().onConnect({
+      source: "level-1-moveScript",
+      sourceHandle: "targets[0]",
+      target: "level-1",
+      targetHandle: null,
+    });
+    expect(attributeValue("targets")).toEqual(["level-1", "root"]);
+
+    useGraphEditorStore.getState().onConnect({
+      source: "level-1-moveScript",
+      sourceHandle: "targets",
+      target: "level-2",
+      targetHandle: null,
+    });
+    expect(attributeValue("targets")).toEqual(["level-1", "root", "level-2"]);
+  });
+
+  it("starts an entity array that is still null with the dropped entity", () => {
+    useGraphEditorStore.getState().setGraphData({
+      rootGuid: "root",
+      entities: withAttributes({
+        targets: {
+          type: "entity",
+          value: null,
+          definition: { type: "entity", array: true },
+        },
+      }),
+      selectedEntityName: null,
+      projectId: 100,
+      sceneId: 200,
+    });
+
+    useGraphEditorStore.getState().onConnect({
+      source: "level-1-moveScript",
+      sourceHandle: "targets",
+      target: "level-2",
+      targetHandle: null,
+    });
+    expect(attributeValue("targets")).toEqual(["level-2"]);
+  });
+});
+
+describe("broken references", () => {
+  it("remembers removed names and retargets broken references", async () => {
+    useGraphEditorStore.setState({
+      entities: {
+        ...baseEntities,
+        "level-1": {
+          ...baseEntities["level-1"],
+          components: {
+            script: {
+              scripts: {
+                moveScript: {
+                  enabled: true,
+                  attributes: {
+                    target: { type: "entity", value: "level-2" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      patchSessionId: "session",
+      lastSequence: 0,
+    });
+
+    useGraphEditorStore.getState().applyScenePatch({
+      sessionId: "session",
+      sequence: 1,
+      ops: [{ op: "entity:remove", guid: "level-2" }],
+    });
+    const state = useGraphEditorStore.getState();
+    expect(state.removedEntityNames).toEqual({ "level-2": "Level 2" });
+
+    const [reference] = findBrokenReferences(state.entities);
+    await state.repairBrokenReferences([{ reference, targetGuid: "root" }]);
+    expect(
+      useGraphEditorStore.getState().entities["level-1"].components.script
+        .scripts.moveScript.attributes.target.value
+    ).toBe("root");
+  });
+});
+
+describe("useGraphEditorStore.revealEntity", () => {
+  it("expands ancestors in one layout step and focuses quietly", () => {
+    useGraphEditorStore.setState({
+      collapsedState: { root: true, "level-1": true },
+    });
+
+    useGraphEditorStore
+      .getState()
+      .revealEntity("level-2", {
+        broadcast: false,
+        requestViewportFocus: false,
+      });
+
+    const state = useGraphEditorStore.getState();
+    expect(state.collapsedState).toEqual({});
+    expect(state.layoutHistory.past).toHaveLength(1);
+    expect(state.pendingFocusGuid).toBe("level-2");
+    expect(state.selectedEntityGuid).toBe("level-2");
+    expect(sendRuntimeMessage).toHaveBeenCalledWith({
+      type: "GRAPH_SET_COLLAPSE_STATE",
+      payload: { entityGuid: "level-1", collapsed: false },
+    });
+    expect(sendRuntimeMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: "GRAPH_SET_SELECTION" })
+    );
+    expect(sendRuntimeMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: "GRAPH_FOCUS_ENTITY" })
+    );
+  });
 });
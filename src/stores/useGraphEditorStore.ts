@@ -11,18 +11,56 @@ import type {
 import { applyNodeChanges, applyEdgeChanges, addEdge } from "reactflow";
 
 import type {
+  AddEntityResult,
   AssetPayload,
   AssetsListPayload,
+  DuplicateEntitiesResult,
+  EntityCoreProperties,
+  EntityCoreProperty,
   EntityPayload,
+  HistoryStatePayload,
+  HistoryStepPayload,
+  MutationResponse,
+  RuntimeMessage,
   SceneGraphPayload,
+  ScenePatchPayload,
+  ScriptSummary,
+  ScriptsListPayload,
 } from "@/types/messaging";
-import { buildGraphLayout, type PositionOverride } from "@/utils/graphLayout";
+import type { ConnectionStatus } from "@/utils/connection";
+import {
+  buildGraphLayout,
+  getOrderedScriptEntries,
+  type PositionOverride,
+} from "@/utils/graphLayout";
 import { sendRuntimeMessage } from "@/utils/runtime";
+import {
+  collectSubtree,
+  getEntitySlotHandleId,
+  parseEntitySlotHandleId,
+  type EntitySlotPath,
+} from "@/utils/entityReferences";
+import {
+  buildReferenceFixUpdates,
+  type ReferenceFix,
+} from "@/utils/brokenReferences";
+import { applyPatchOps, getAtPath, setAtPath } from "@/utils/scenePatch";
+import type { LintRuleSettings } from "@/utils/sceneLint";
 
 interface ScriptEdgeData {
   entityGuid: string;
   scriptName: string;
   attributeName: string;
+  assetId?: string;
+  /**
+   * Set when the edge stands for one element of an array attribute.
+   */
+  arrayIndex?: number | null;
+  /**
+   * Set when the edge stands for one entity slot inside an entity array or
+   * json-schema attribute.
+   */
+  path?: EntitySlotPath;
 }
 
 interface GraphEditorState {
@@ -32,27 +70,89 @@ interface GraphEditorState {
   rootGuid: string | null;
   projectId: number | string | null;
   sceneId: number | string | null;
+  projectName: string | null;
+  sceneName: string | null;
   manualPositions: Record<string, PositionOverride>;
   collapsedState: Record<string, boolean>;
   scriptPanelState: Record<string, boolean>;
+  /**
+   * Entities whose properties section is expanded on the canvas.
+   */
+  entityPanelState: Record<string, boolean>;
+  /**
+   * Primary selection: the entity the editor inspector shows.
+   */
   selectedEntityGuid: string | null;
+  /**
+   * Every selected entity, mirroring the editor's `selector:items`.
+   */
+  selectedEntityGuids: string[];
   selectedScriptNodeId: string | null;
   selectedEntityName: string | null;
+  /**
+   * Entity whose name is being edited inline on its node.
+   */
+  renamingEntityGuid: string | null;
   draggingEntityGuid: string | null;
   previewParentGuid: string | null;
   pendingFocusGuid: string | null;
   isLoading: boolean;
   error: string | null;
+  mutationError: string | null;
+  connectionStatus: ConnectionStatus;
+  connectionDetail: string | null;
+  /**
+   * Sequence of the last bridge patch reflected in `entities`.
+   */
+  lastSequence: number;
+  patchSessionId: string | null;
+  awaitingSnapshot: boolean;
+  /**
+   * Undo/redo state of the editor, as last pushed by the bridge.
+   */
+  editorHistory: HistoryStatePayload;
+  /**
+   * Graph-only undo stack for node positions, collapsed entities and script
+   * panels, none of which reach the editor's history.
+   */
+  layoutHistory: { past: LayoutSnapshot[]; future: LayoutSnapshot[] };
+  /**
+   * Project assets by id, as last loaded from the editor.
+   */
+  assets: Record<string, AssetPayload>;
+  /**
+   * Entity whose inbound reference edges are emphasized on the canvas.
+   */
+  referenceHighlightGuid: string | null;
+  /**
+   * Last known names of entities removed this session, so references left
+   * pointing at them can be retargeted to a namesake.
+   */
+  removedEntityNames: Record<string, string>;
+  /**
+   * Lint rules the current project turned on or off.
+   */
+  lintRuleSettings: LintRuleSettings;
   onNodesChange: OnNodesChange;
   onEdgesChange: OnEdgesChange;
   onConnect: OnConnect;
   setGraphData: (payload: SceneGraphPayload) => void;
+  resyncGraphData: (payload: SceneGraphPayload) => void;
+  applyScenePatch: (patch: ScenePatchPayload) => ScenePatchResult;
+  setConnectionStatus: (
+    status: ConnectionStatus,
+    detail?: string | null
+  ) => void;
   setSelectedEntity: (
     guid: string | null,
     name?: string | null,
     scriptNodeId?: string | null,
     options?: { broadcast?: boolean }
   ) => void;
+  setSelectedEntities: (
+    guids: string[],
+    options?: { broadcast?: boolean }
+  ) => void;
   clearSelection: () => void;
   setEntityCollapsed: (
     guid: string,
@@ -64,40 +164,152 @@ interface GraphEditorState {
     entityGuid: string,
     newParentGuid: string | null,
     options?: { insertIndex?: number | null; preserveTransform?: boolean }
-  ) => void;
+  ) => Promise<MutationResponse>;
   setReparentPreview: (
     draggingGuid: string | null,
     previewParentGuid: string | null | "ROOT"
   ) => void;
   toggleScriptPanel: (scriptNodeId: string) => void;
   setScriptPanelState: (scriptNodeId: string, collapsed: boolean) => void;
+  toggleEntityPanel: (guid: string) => void;
   updateScriptAttribute: (
     entityGuid: string,
     scriptName: string,
     attributeName: string,
     value: unknown,
     options?: { sendRuntime?: boolean }
-  ) => void;
+  ) => Promise<MutationResponse>;
+  /**
+   * Writes one value to the same script attribute on several entities; the
+   * editor records all of the writes as a single undo step.
+   */
+  updateScriptAttributes: (
+    entityGuids: string[],
+    scriptName: string,
+    attributeName: string,
+    value: unknown
+  ) => Promise<MutationResponse>;
+  updateEntityProperty: <TProperty extends EntityCoreProperty>(
+    entityGuid: string,
+    property: TProperty,
+    value: EntityCoreProperties[TProperty],
+    options?: { sendRuntime?: boolean }
+  ) => Promise<MutationResponse>;
+  updateComponentProperty: (
+    entityGuid: string,
+    path: string,
+    value: unknown,
+    options?: { sendRuntime?: boolean }
+  ) => Promise<MutationResponse>;
+  /**
+   * Points broken entity references at new targets, or clears them, with one
+   * attribute write per affected attribute.
+   */
+  repairBrokenReferences: (fixes: ReferenceFix[]) => Promise<MutationResponse>;
   clearScriptAttribute: (
     entityGuid: string,
     scriptName: string,
     attributeName: string,
-    options?: { removeEdge?: boolean }
-  ) => void;
+    options?: { removeEdge?: boolean; path?: EntitySlotPath }
+  ) => Promise<MutationResponse>;
+  addScript: (
+    entityGuid: string,
+    scriptName: string
+  ) => Promise<MutationResponse>;
+  removeScript: (
+    entityGuid: string,
+    scriptName: string
+  ) => Promise<MutationResponse>;
+  /**
+   * Applies a new script execution order and snaps the entity's script
+   * nodes back into a vertical stack in that order.
+   */
+  reorderScripts: (
+    entityGuid: string,
+    order: string[],
+    options?: { sendRuntime?: boolean }
+  ) => Promise<MutationResponse>;
   toggleEntityCollapse: (guid: string) => void;
-  upsertEntity: (entity: EntityPayload) => void;
-  addEntity: (parentGuid: string | null) => void;
+  addEntity: (
+    parentGuid: string | null,
+    name?: string
+  ) => Promise<MutationResponse<AddEntityResult>>;
+  setRenamingEntity: (guid: string | null) => void;
+  renameEntity: (
+    guid: string,
+    name: string,
+    options?: { sendRuntime?: boolean }
+  ) => Promise<MutationResponse>;
+  deleteEntities: (guids: string[]) => Promise<MutationResponse>;
+  duplicateEntities: (
+    guids: string[]
+  ) => Promise<MutationResponse<DuplicateEntitiesResult>>;
   removeEntity: (guid: string) => void;
   focusEntity: (entityGuid: string, options?: FocusOptions) => void;
+  /**
+   * Expands the collapsed ancestors hiding an entity, as one layout-undo
+   * step, then focuses it.
+   */
+  revealEntity: (entityGuid: string, options?: FocusOptions) => void;
   clearPendingFocus: () => void;
   setNodes: (nodes: Node[]) => void;
   setEdges: (edges: Edge[]) => void;
   setLoading: (value: boolean) => void;
   setError: (message: string | null) => void;
+  clearMutationError: () => void;
+  setEditorHistory: (history: HistoryStatePayload) => void;
+  setReferenceHighlight: (guid: string | null) => void;
+  setLintRuleEnabled: (ruleId: string, enabled: boolean) => void;
+  undoLayout: () => void;
+  redoLayout: () => void;
+  /**
+   * Drops the manual positions of an entity, its descendants and their
+   * script and component nodes so the automatic layout places them again.
+   */
+  resetSubtreeLayout: (guid: string) => void;
+  /**
+   * Undoes or redoes `steps` entries of the editor's history.
+   */
+  stepEditorHistory: (
+    direction: HistoryStepPayload["direction"],
+    steps?: number
+  ) => Promise<MutationResponse<HistoryStatePayload>>;
   reset: () => void;
   getAssets: (assetType?: string) => Promise<AssetPayload[]>;
+  /**
+   * Refreshes `assets`, the lookup asset nodes read their name and type from.
+   */
+  loadAssets: () => Promise<void>;
+  /**
+   * Points an asset attribute at an asset; asset arrays get it appended.
+   */
+  assignAsset: (
+    scriptNodeId: string,
+    attributeName: string,
+    assetId: string
+  ) => Promise<MutationResponse>;
+  getScripts: () => Promise<ScriptSummary[]>;
+}
+
+interface LayoutSnapshot {
+  manualPositions: Record<string, PositionOverride>;
+  collapsedState: Record<string, boolean>;
+  scriptPanelState: Record<string, boolean>;
 }
 
+const LAYOUT_HISTORY_LIMIT = 50;
+
+const EMPTY_HISTORY: HistoryStatePayload = {
+  canUndo: false,
+  canRedo: false,
+  entries: [],
+};
+
+/**
+ * "gap" means patches were missed and a full snapshot must be requested.
+ */
+export type ScenePatchResult = "applied" | "ignored" | "gap";
+
 interface FocusOptions {
   broadcast?: boolean;
   requestViewportFocus?: boolean;
@@ -109,6 +321,7 @@ const SCRIPT_NODE_WIDTH = 200;
 const HORIZONTAL_SPACING = 100;
 const SCRIPT_VERTICAL_OFFSET = 60;
 const LAYOUT_STORAGE_PREFIX = "pc-ge-layout";
+const LINT_STORAGE_PREFIX = "pc-ge-lint";
 
 interface LayoutStorage {
   manualPositions: Record<string, PositionOverride>;
@@ -148,6 +361,40 @@ const loadLayoutState = (
   }
 };
 
+// Lint settings belong to the project, shared by all of its scenes
+const loadLintRuleSettings = (
+  projectId: number | string | null
+): LintRuleSettings => {
+  if (typeof window === "undefined" || projectId == null) {
+    return {};
+  }
+  try {
+    const raw = window.localStorage.getItem(
+      `${LINT_STORAGE_PREFIX}-${projectId}`
+    );
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const persistLintRuleSettings = (
+  projectId: number | string | null,
+  settings: LintRuleSettings
+) => {
+  if (typeof window === "undefined" || projectId == null) {
+    return;
+  }
+  try {
+    window.localStorage.setItem(
+      `${LINT_STORAGE_PREFIX}-${projectId}`,
+      JSON.stringify(settings)
+    );
+  } catch {
+    // ignore write errors
+  }
+};
+
 const buildLayoutFromState = (
   rootGuid: string | null,
   entities: Record<string, EntityPayload>,
@@ -155,7 +402,8 @@ const buildLayoutFromState = (
   manualPositions: Record<string, PositionOverride>,
   collapsedState: Record<string, boolean>,
   projectId: number | string | null,
-  sceneId: number | string | null
+  sceneId: number | string | null,
+  entityPanelState: Record<string, boolean>
 ) => {
   if (!rootGuid) {
     return { nodes: [], edges: [] };
@@ -171,6 +419,7 @@ const buildLayoutFromState = (
     },
     manualPositions,
     collapsedState,
+    entityPanelState,
   });
 };
 
@@ -193,6 +442,366 @@ const persistLayoutState = (
   }
 };
 
+/**
+ * Sends a mutation to the editor bridge and resolves with its acknowledgement.
+ * Transport failures are folded into an unsuccessful response so callers
+ * only have to handle one failure shape.
+ */
+const dispatchMutation = async <TData = unknown>(
+  message: RuntimeMessage
+): Promise<MutationResponse<TData>> => {
+  try {
+    const response = await sendRuntimeMessage<
+      MutationResponse<TData> | undefined
+    >(message);
+    if (!response) {
+      return { success: false, error: "No response from PlayCanvas editor" };
+    }
+    return response;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unexpected error",
+    };
+  }
+};
+
+const getScriptOrder = (entity: EntityPayload) =>
+  getOrderedScriptEntries(entity).map(([name]) => name);
+
+const isSameOrder = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((name, index) => name === b[index]);
+
+const DUPLICATE_GAP = 48;
+
+/**
+ * Carries the manual layout of duplicated subtrees over to their copies.
+ * Top-level copies go beside their source's rendered bounds, so sources
+ * without a manual position get placed too; descendants, script and
+ * component nodes keep their offsets from the parent.
+ */
+const copyDuplicatePositions = (
+  manualPositions: Record<string, PositionOverride>,
+  nodes: Node[],
+  duplicates: DuplicateEntitiesResult["duplicates"],
+  topLevelSources: Set<string>
+) => {
+  const duplicateOf = new Map(
+    duplicates.map(({ sourceGuid, guid }) => [sourceGuid, guid])
+  );
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const next = { ...manualPositions };
+  let changed = false;
+
+  duplicates.forEach(({ sourceGuid, guid }) => {
+    Object.entries(manualPositions).forEach(([key, stored]) => {
+      if (!key.startsWith(`${sourceGuid}-`) && key !== sourceGuid) {
+        return;
+      }
+      next[`${guid}${key.slice(sourceGuid.length)}`] = {
+        x: stored.x,
+        y: stored.y,
+        parentId:
+          stored.parentId && duplicateOf.has(stored.parentId)
+            ? duplicateOf.get(stored.parentId)!
+            : stored.parentId,
+      };
+      changed = true;
+    });
+
+    const source = nodesById.get(sourceGuid);
+    if (!topLevelSources.has(sourceGuid) || !source) {
+      return;
+    }
+    const width = source.width ?? Number(source.style?.width ?? 0);
+    next[guid] = {
+      x: source.position.x + width + DUPLICATE_GAP,
+      y: source.position.y,
+      parentId: source.parentNode ?? null,
+    };
+    changed = true;
+  });
+
+  return changed ? next : manualPositions;
+};
+
+const describeMutationFailure = (
+  label: string,
+  response: MutationResponse
+) => (response.error ? `${label}: ${response.error}` : label);
+
+/**
+ * Drops layout and selection state that belongs to removed entities,
+ * including their script nodes (`${guid}-${scriptName}`).
+ */
+const pruneRemovedEntityState = (
+  state: GraphEditorState,
+  removed: Set<string>
+) => {
+  const belongsToRemoved = (id: string) =>
+    removed.has(id) ||
+    Array.from(removed).some((guid) => id.startsWith(`${guid}-`));
+
+  const manualPositions = { ...state.manualPositions };
+  Object.keys(manualPositions).forEach((key) => {
+    if (belongsToRemoved(key)) {
+      delete manualPositions[key];
+    }
+  });
+
+  const collapsedState = { ...state.collapsedState };
+  const entityPanelState = { ...state.entityPanelState };
+  removed.forEach((id) => {
+    delete collapsedState[id];
+    delete entityPanelState[id];
+  });
+
+  const selectionRemoved = removed.has(state.selectedEntityGuid || "");
+  const scriptSelectionRemoved =
+    !!state.selectedScriptNodeId &&
+    belongsToRemoved(state.selectedScriptNodeId);
+  const selectedEntityGuids = state.selectedEntityGuids.filter(
+    (guid) => !removed.has(guid)
+  );
+  // Hand the primary selection to the next entity still selected
+  const selectedEntityGuid = selectionRemoved
+    ? selectedEntityGuids[0] ?? null
+    : state.selectedEntityGuid;
+
+  return {
+    manualPositions,
+    collapsedState,
+    entityPanelState,
+    selectedEntityGuid,
+    selectedEntityGuids,
+    selectedScriptNodeId: scriptSelectionRemoved
+      ? null
+      : state.selectedScriptNodeId,
+    selectedEntityName: selectionRemoved
+      ? selectedEntityGuid
+        ? state.entities[selectedEntityGuid]?.name ?? null
+        : null
+      : state.selectedEntityName,
+  };
+};
+
+/**
+ * Marks the selected entity and script nodes, leaving other nodes untouched
+ * when their flag already matches.
+ */
+const decorateSelectedNodes = (
+  nodes: Node[],
+  selectedEntityGuids: string[],
+  selectedScriptNodeId: string | null
+): Node[] => {
+  const selectedEntities = new Set(selectedEntityGuids);
+  return nodes.map((node) => {
+    const isSelected =
+      (node.type === "entity" && selectedEntities.has(node.id)) ||
+      (node.type === "script" && node.id === selectedScriptNodeId);
+    return node.selected === isSelected
+      ? node
+      : { ...node, selected: isSelected };
+  });
+};
+
+const broadcastSelection = (
+  entityGuid: string | null,
+  entityGuids: string[],
+  onFailure: (response: MutationResponse) => void
+) => {
+  dispatchMutation({
+    type: "GRAPH_SET_SELECTION",
+    payload: { entityGuid, entityGuids },
+  }).then((response) => {
+    if (!response.success) {
+      console.error(
+        "[GraphStore] Failed to sync selection to editor:",
+        response.error
+      );
+      onFailure(response);
+    }
+  });
+};
+
+const getScriptAttributeValue = (
+  entities: Record<string, EntityPayload>,
+  entityGuid: string,
+  scriptName: string,
+  attributeName: string
+): unknown =>
+  entities[entityGuid]?.components?.script?.scripts?.[scriptName]?.attributes?.[
+    attributeName
+  ]?.value;
+
+const takeLayoutSnapshot = (state: GraphEditorState): LayoutSnapshot => ({
+  manualPositions: state.manualPositions,
+  collapsedState: state.collapsedState,
+  scriptPanelState: state.scriptPanelState,
+});
+
+/**
+ * Pushes the current layout onto the layout undo stack; spread the result
+ * into the `set` call that changes the layout.
+ */
+const recordLayoutChange = (
+  state: GraphEditorState
+): Pick<GraphEditorState, "layoutHistory"> => ({
+  layoutHistory: {
+    past: [...state.layoutHistory.past, takeLayoutSnapshot(state)].slice(
+      -LAYOUT_HISTORY_LIMIT
+    ),
+    future: [],
+  },
+});
+
+/**
+ * Puts a layout snapshot back in place. Collapse changes are also sent to
+ * the editor, whose hierarchy mirrors the graph's collapsed entities.
+ */
+const restoreLayoutSnapshot = (
+  state: GraphEditorState,
+  snapshot: LayoutSnapshot,
+  set: (partial: Partial<GraphEditorState>) => void
+) => {
+  set({
+    manualPositions: snapshot.manualPositions,
+    collapsedState: snapshot.collapsedState,
+    scriptPanelState: snapshot.scriptPanelState,
+    ...buildLayoutFromState(
+      state.rootGuid,
+      state.entities,
+      state.selectedEntityName,
+      snapshot.manualPositions,
+      snapshot.collapsedState,
+      state.projectId,
+      state.sceneId,
+      state.entityPanelState
+    ),
+  });
+  persistLayoutState(
+    state.projectId,
+    state.sceneId,
+    snapshot.manualPositions,
+    snapshot.collapsedState
+  );
+
+  const guids = new Set([
+    ...Object.keys(state.collapsedState),
+    ...Object.keys(snapshot.collapsedState),
+  ]);
+  guids.forEach((guid) => {
+    const collapsed = !!snapshot.collapsedState[guid];
+    if (collapsed === !!state.collapsedState[guid] || !state.entities[guid]) {
+      return;
+    }
+    dispatchMutation({
+      type: "GRAPH_SET_COLLAPSE_STATE",
+      payload: { entityGuid: guid, collapsed },
+    }).then((response) => {
+      if (!response.success) {
+        console.error(
+          "[GraphStore] Failed to sync collapse state:",
+          response.error
+        );
+      }
+    });
+  });
+};
+
+/**
+ * Collapses or expands several entities as one layout change: one rebuild,
+ * one layout-undo entry, and one editor sync per entity that changed.
+ */
+const applyCollapseChanges = (
+  state: GraphEditorState,
+  changes: Record<string, boolean>,
+  source: "editor" | "extension",
+  set: (partial: Partial<GraphEditorState>) => void
+) => {
+  const changed = Object.entries(changes).filter(
+    ([guid, collapsed]) => !!state.collapsedState[guid] !== collapsed
+  );
+  if (!changed.length) {
+    return;
+  }
+
+  const preservedPositions: Record<string, PositionOverride> = {
+    ...state.manualPositions,
+  };
+  state.nodes.forEach((node) => {
+    const existing = preservedPositions[node.id];
+    if (!existing || existing.parentId !== (node.parentNode ?? null)) {
+      preservedPositions[node.id] = {
+        x: node.position.x,
+        y: node.position.y,
+        parentId: node.parentNode ?? null,
+      };
+    }
+  });
+
+  const collapsedState = { ...state.collapsedState };
+  changed.forEach(([guid, collapsed]) => {
+    if (collapsed) {
+      collapsedState[guid] = true;
+    } else {
+      delete collapsedState[guid];
+    }
+  });
+
+  const { nodes, edges } = buildLayoutFromState(
+    state.rootGuid,
+    state.entities,
+    state.selectedEntityName,
+    preservedPositions,
+    collapsedState,
+    state.projectId,
+    state.sceneId,
+    state.entityPanelState
+  );
+
+  set({
+    collapsedState,
+    nodes,
+    edges,
+    manualPositions: preservedPositions,
+    // Collapses mirrored from the editor are not the graph's to undo
+    ...(source !== "editor" ? recordLayoutChange(state) : {}),
+  });
+
+  if (state.projectId != null && state.sceneId != null) {
+    persistLayoutState(
+      state.projectId,
+      state.sceneId,
+      preservedPositions,
+      collapsedState
+    );
+  }
+
+  if (source === "editor") {
+    return;
+  }
+  changed.forEach(([guid, collapsed]) => {
+    dispatchMutation({
+      type: "GRAPH_SET_COLLAPSE_STATE",
+      payload: { entityGuid: guid, collapsed },
+    }).then((response) => {
+      if (!response.success) {
+        console.error(
+          "[GraphStore] Failed to sync collapse state:",
+          response.error
+        );
+        set({
+          mutationError: describeMutationFailure(
+            "Failed to sync collapse state",
+            response
+          ),
+        });
+      }
+    });
+  });
+};
+
 export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
   nodes: [],
   edges: [],
@@ -200,17 +809,34 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
   rootGuid: null,
   projectId: null,
   sceneId: null,
+  projectName: null,
+  sceneName: null,
   manualPositions: {},
   collapsedState: {},
   scriptPanelState: {},
+  entityPanelState: {},
   selectedEntityGuid: null,
+  selectedEntityGuids: [],
   selectedScriptNodeId: null,
   selectedEntityName: null,
+  renamingEntityGuid: null,
   draggingEntityGuid: null,
   previewParentGuid: null,
   pendingFocusGuid: null,
   isLoading: true,
   error: null,
+  mutationError: null,
+  connectionStatus: "connecting",
+  connectionDetail: null,
+  lastSequence: 0,
+  patchSessionId: null,
+  awaitingSnapshot: false,
+  editorHistory: EMPTY_HISTORY,
+  layoutHistory: { past: [], future: [] },
+  assets: {},
+  referenceHighlightGuid: null,
+  removedEntityNames: {},
+  lintRuleSettings: {},
   onNodesChange: (changes) => {
     const state = get();
     const nonRemovalChanges = changes.filter(
@@ -218,55 +844,79 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     );
     const updatedNodes = applyNodeChanges(nonRemovalChanges, state.nodes);
 
-    let newlySelectedScriptNodeId: string | null = null;
-    let newlySelectedEntityGuid: string | null = null;
-    let shouldClearSelection = false;
-
-    for (const change of changes) {
-      if (change.type === "select" && change.selected === true) {
-        const node = updatedNodes.find((n) => n.id === change.id);
-        if (node?.type === "script") {
-          newlySelectedScriptNodeId = node.id;
-          newlySelectedEntityGuid = node.parentNode as string | null;
-        } else if (node?.type === "entity") {
-          newlySelectedEntityGuid = node.id;
-          newlySelectedScriptNodeId = null;
+    // React Flow reports clicks, modifier clicks and box selection as
+    // select changes; the resulting node flags are the new selection.
+    const hasSelectChanges = changes.some((change) => change.type === "select");
+    let currentEntityGuids = state.selectedEntityGuids;
+    let currentScriptNodeId = state.selectedScriptNodeId;
+    let currentEntityGuid = state.selectedEntityGuid;
+
+    if (hasSelectChanges) {
+      const newlySelected = new Set(
+        changes
+          .filter((change) => change.type === "select" && change.selected)
+          .map((change) => (change as { id: string }).id)
+      );
+      const selectedGuids = new Set<string>();
+      let newlySelectedEntityGuid: string | null = null;
+      let newlySelectedScriptNodeId: string | null = null;
+      let scriptStillSelected = false;
+
+      updatedNodes.forEach((node) => {
+        if (!node.selected) return;
+        // Script and component nodes select the entity they belong to
+        const entityGuid =
+          node.type === "entity" ? node.id : (node.parentNode as string);
+        if (!entityGuid) return;
+        selectedGuids.add(entityGuid);
+        if (newlySelected.has(node.id)) {
+          if (!newlySelectedEntityGuid) {
+            newlySelectedEntityGuid = entityGuid;
+          }
+          if (node.type === "script") {
+            newlySelectedScriptNodeId = node.id;
+          }
         }
-      } else if (change.type === "select" && change.selected === false) {
-        const node = updatedNodes.find((n) => n.id === change.id);
-        if (
-          (node?.type === "script" && state.selectedScriptNodeId === node.id) ||
-          (node?.type === "entity" && state.selectedEntityGuid === node.id)
-        ) {
-          shouldClearSelection = true;
+        if (node.type === "script" && node.id === state.selectedScriptNodeId) {
+          scriptStillSelected = true;
         }
-      }
-    }
-
-    let currentScriptNodeId: string | null;
-    let currentEntityGuid: string | null;
+      });
 
-    if (
-      shouldClearSelection &&
-      newlySelectedScriptNodeId === null &&
-      newlySelectedEntityGuid === null
-    ) {
-      currentScriptNodeId = null;
-      currentEntityGuid = null;
-    } else if (
-      newlySelectedScriptNodeId !== null ||
-      newlySelectedEntityGuid !== null
-    ) {
-      currentScriptNodeId = newlySelectedScriptNodeId;
-      currentEntityGuid = newlySelectedEntityGuid;
-    } else {
-      currentScriptNodeId = state.selectedScriptNodeId;
-      currentEntityGuid = state.selectedEntityGuid;
+      currentScriptNodeId =
+        newlySelectedScriptNodeId ??
+        (scriptStillSelected && !newlySelectedEntityGuid
+          ? state.selectedScriptNodeId
+          : null);
+      // The primary entity stays put while it is selected, like the editor's
+      // first selector item; otherwise the first newly selected one takes over
+      currentEntityGuid =
+        state.selectedEntityGuid && selectedGuids.has(state.selectedEntityGuid)
+          ? state.selectedEntityGuid
+          : newlySelectedEntityGuid ??
+            Array.from(selectedGuids)[0] ??
+            null;
+      currentEntityGuids = currentEntityGuid
+        ? [
+            currentEntityGuid,
+            ...state.selectedEntityGuids.filter(
+              (guid) => guid !== currentEntityGuid && selectedGuids.has(guid)
+            ),
+            ...Array.from(selectedGuids).filter(
+              (guid) =>
+                guid !== currentEntityGuid &&
+                !state.selectedEntityGuids.includes(guid)
+            ),
+          ]
+        : [];
     }
 
     const selectionChanged =
       currentEntityGuid !== state.selectedEntityGuid ||
-      currentScriptNodeId !== state.selectedScriptNodeId;
+      currentScriptNodeId !== state.selectedScriptNodeId ||
+      currentEntityGuids.length !== state.selectedEntityGuids.length ||
+      currentEntityGuids.some(
+        (guid, index) => guid !== state.selectedEntityGuids[index]
+      );
 
     const manualUpdates: Record<string, PositionOverride> = {};
     nonRemovalChanges.forEach((change) => {
@@ -287,51 +937,34 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       manualUpdateKeys.length > 0
         ? { ...state.manualPositions, ...manualUpdates }
         : state.manualPositions;
+    const layoutMoved = manualUpdateKeys.some((id) => {
+      const previous = state.manualPositions[id];
+      const next = manualUpdates[id];
+      return (
+        !previous ||
+        previous.x !== next.x ||
+        previous.y !== next.y ||
+        previous.parentId !== next.parentId
+      );
+    });
 
-    let baseNodes: Node[] = updatedNodes;
-    let baseEdges: Edge[] = state.edges;
-
-    const decorateSelection = (nodesToDecorate: Node[]): Node[] => {
-      return nodesToDecorate.map((node) => {
-        let isSelected = false;
-        if (currentScriptNodeId) {
-          if (node.id === currentScriptNodeId && node.type === "script") {
-            isSelected = true;
-          } else if (
-            currentEntityGuid &&
-            node.id === currentEntityGuid &&
-            node.type === "entity"
-          ) {
-            isSelected = true;
-          }
-        } else if (
-          currentEntityGuid &&
-          node.id === currentEntityGuid &&
-          node.type === "entity"
-        ) {
-          isSelected = true;
-        }
-
-        if (node.selected === isSelected) {
-          return node;
-        }
-
-        return { ...node, selected: isSelected };
-      });
-    };
-
-    const decoratedNodes = decorateSelection(baseNodes);
+    const decoratedNodes = decorateSelectedNodes(
+      updatedNodes,
+      currentEntityGuids,
+      currentScriptNodeId
+    );
     const selectedEntityNode = decoratedNodes.find(
       (n) => n.id === currentEntityGuid && n.type === "entity"
     );
 
     set({
       nodes: decoratedNodes,
-      edges: baseEdges,
       selectedScriptNodeId: currentScriptNodeId,
       selectedEntityGuid: currentEntityGuid,
+      selectedEntityGuids: currentEntityGuids,
       selectedEntityName: selectedEntityNode?.data?.label ?? null,
       manualPositions,
+      ...(layoutMoved ? recordLayoutChange(state) : {}),
     });
 
     if (
@@ -348,15 +981,14 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     }
 
     if (selectionChanged && currentEntityGuid) {
-      sendRuntimeMessage({
-        type: "GRAPH_SET_SELECTION",
-        payload: { entityGuid: currentEntityGuid },
-      }).catch((error) => {
-        console.error(
-          "[GraphStore] Failed to sync selection to editor:",
-          error
-        );
-      });
+      broadcastSelection(currentEntityGuid, currentEntityGuids, (response) =>
+        set({
+          mutationError: describeMutationFailure(
+            "Failed to sync selection",
+            response
+          ),
+        })
+      );
     }
   },
   onEdgesChange: (changes: EdgeChange[]) => {
@@ -381,14 +1013,16 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       edges: applyEdgeChanges(changes, edgesBefore),
     });
 
+    // Edges of array elements or slots empty just that element, so the
+    // other elements keep their indices
     removedEdgeMetadata.forEach((meta) => {
+      const path =
+        typeof meta.arrayIndex === "number" ? [meta.arrayIndex] : meta.path;
       clearScriptAttribute(
         meta.entityGuid,
         meta.scriptName,
         meta.attributeName,
-        {
-          removeEdge: false,
-        }
+        { removeEdge: false, path }
       );
     });
   },
@@ -406,8 +1040,10 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       return;
     }
 
-    const attributeName =
-      typeof sourceHandle === "string" ? sourceHandle : String(sourceHandle);
+    // Slot handles of entity arrays and json fields carry a path
+    const { attributeName, path } = parseEntitySlotHandleId(
+      typeof sourceHandle === "string" ? sourceHandle : String(sourceHandle)
+    );
     if (!attributeName) {
       return;
     }
@@ -417,6 +1053,14 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       return;
     }
 
+    const targetNode = state.nodes.find((node) => node.id === target);
+    if (targetNode?.type === "asset") {
+      if (!path.length) {
+        state.assignAsset(source, attributeName, targetNode.data.assetId);
+      }
+      return;
+    }
+
     const scriptNodeData = (scriptNode.data || {}) as {
       scriptName?: string;
       label?: string;
@@ -427,24 +1071,48 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     if (!entityGuid || !scriptName) {
       return;
     }
+    const attribute =
+      state.entities[entityGuid]?.components?.script?.scripts?.[scriptName]
+        ?.attributes?.[attributeName];
+    // Asset handles only connect to asset nodes
+    if ((attribute?.type || attribute?.definition?.type) === "asset") {
+      return;
+    }
+
+    // The attribute's own handle appends to an entity array; slot handles
+    // replace just their element or field. An array still set to null
+    // starts out empty.
+    const isArray =
+      attribute?.definition?.array === true || Array.isArray(attribute?.value);
+    const current =
+      isArray && !path.length && !Array.isArray(attribute?.value)
+        ? []
+        : attribute?.value;
+    const slotPath: EntitySlotPath =
+      path.length || !isArray ? path : [current.length];
+    const value = slotPath.length
+      ? setAtPath(current, slotPath.map(String), target)
+      : target;
 
     set((state) => ({
       edges: addEdge(
         {
           ...connection,
+          sourceHandle: getEntitySlotHandleId(attributeName, slotPath),
           type: "smoothstep",
           animated: true,
           data: {
             entityGuid,
             scriptName,
             attributeName,
+            ...(slotPath.length ? { path: slotPath } : {}),
           },
         },
         state.edges
       ),
     }));
 
-    updateScriptAttribute(entityGuid, scriptName, attributeName, target);
+    updateScriptAttribute(entityGuid, scriptName, attributeName, value);
   },
   setSelectedEntity: (
     guid,
@@ -459,29 +1127,24 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     );
 
     const newScriptNodeId = scriptNodeId ?? null;
+    const selectedEntityGuids = guid ? [guid] : [];
 
     const stateAlreadyCorrect =
-      selectedEntityGuid === guid && selectedScriptNodeId === newScriptNodeId;
+      selectedEntityGuid === guid &&
+      selectedScriptNodeId === newScriptNodeId &&
+      state.selectedEntityGuids.length === selectedEntityGuids.length;
 
     if (!stateAlreadyCorrect) {
       set({
         selectedEntityGuid: guid,
+        selectedEntityGuids,
         selectedScriptNodeId: newScriptNodeId,
         selectedEntityName: name ?? (entityNode ? entityNode.data.label : null),
-        nodes: nodes.map((node) => {
-          if (scriptNodeId) {
-            return {
-              ...node,
-              selected:
-                (node.id === guid && node.type === "entity") ||
-                (node.id === scriptNodeId && node.type === "script"),
-            };
-          }
-          return {
-            ...node,
-            selected: node.id === guid && node.type === "entity",
-          };
-        }),
+        nodes: decorateSelectedNodes(
+          nodes,
+          selectedEntityGuids,
+          newScriptNodeId
+        ),
       });
     } else {
       const newName = name ?? (entityNode ? entityNode.data.label : null);
@@ -492,24 +1155,65 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
 
     const shouldBroadcast = options?.broadcast !== false;
     if (guid && shouldBroadcast) {
-      sendRuntimeMessage({
-        type: "GRAPH_SET_SELECTION",
-        payload: { entityGuid: guid },
-      }).catch((error) => {
-        console.error("[GraphStore] Failed to broadcast selection:", error);
-      });
+      broadcastSelection(guid, selectedEntityGuids, (response) =>
+        set({
+          mutationError: describeMutationFailure(
+            "Failed to sync selection",
+            response
+          ),
+        })
+      );
+    }
+  },
+  setSelectedEntities: (guids, options = { broadcast: true }) => {
+    const state = get();
+    const selectedEntityGuids = Array.from(new Set(guids)).filter(
+      (guid) => !!state.entities[guid]
+    );
+    const selectedEntityGuid = selectedEntityGuids[0] ?? null;
+    // A script selection only survives if its entity is still the primary
+    const selectedScriptNodeId =
+      selectedEntityGuid && selectedEntityGuid === state.selectedEntityGuid
+        ? state.selectedScriptNodeId
+        : null;
+
+    set({
+      selectedEntityGuid,
+      selectedEntityGuids,
+      selectedScriptNodeId,
+      selectedEntityName: selectedEntityGuid
+        ? state.entities[selectedEntityGuid].name
+        : null,
+      nodes: decorateSelectedNodes(
+        state.nodes,
+        selectedEntityGuids,
+        selectedScriptNodeId
+      ),
+    });
+
+    if (selectedEntityGuid && options.broadcast !== false) {
+      broadcastSelection(selectedEntityGuid, selectedEntityGuids, (response) =>
+        set({
+          mutationError: describeMutationFailure(
+            "Failed to sync selection",
+            response
+          ),
+        })
+      );
     }
   },
   clearSelection: () => {
     const state = get();
     if (
       state.selectedEntityGuid === null &&
-      state.selectedScriptNodeId === null
+      state.selectedScriptNodeId === null &&
+      state.selectedEntityGuids.length === 0
     ) {
       return;
     }
     set({
       selectedEntityGuid: null,
+      selectedEntityGuids: [],
       selectedScriptNodeId: null,
       selectedEntityName: null,
       nodes: state.nodes.map((node) =>
@@ -521,86 +1225,28 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     if (!guid) {
       return;
     }
-
-    const source = options.source ?? "extension";
-    const state = get();
-    const currentValue = !!state.collapsedState[guid];
-    if (currentValue === collapsed) {
-      return;
-    }
-
-    const preservedPositions: Record<string, PositionOverride> = {
-      ...state.manualPositions,
-    };
-    state.nodes.forEach((node) => {
-      const existing = preservedPositions[node.id];
-      if (!existing || existing.parentId !== (node.parentNode ?? null)) {
-        preservedPositions[node.id] = {
-          x: node.position.x,
-          y: node.position.y,
-          parentId: node.parentNode ?? null,
-        };
-      }
-    });
-
-    const collapsedState = collapsed
-      ? { ...state.collapsedState, [guid]: true }
-      : (() => {
-          const next = { ...state.collapsedState };
-          delete next[guid];
-          return next;
-        })();
-
-    const { nodes, edges } = buildLayoutFromState(
-      state.rootGuid,
-      state.entities,
-      state.selectedEntityName,
-      preservedPositions,
-      collapsedState,
-      state.projectId,
-      state.sceneId
+    applyCollapseChanges(
+      get(),
+      { [guid]: collapsed },
+      options.source ?? "extension",
+      set
     );
-
-    set({
-      collapsedState,
-      nodes,
-      edges,
-      manualPositions: preservedPositions,
-    });
-
-    if (state.projectId != null && state.sceneId != null) {
-      persistLayoutState(
-        state.projectId,
-        state.sceneId,
-        preservedPositions,
-        collapsedState
-      );
-    }
-
-    if (source !== "editor") {
-      sendRuntimeMessage({
-        type: "GRAPH_SET_COLLAPSE_STATE",
-        payload: { entityGuid: guid, collapsed },
-      }).catch((error) => {
-        console.error("[GraphStore] Failed to sync collapse state:", error);
-      });
-    }
   },
   applyCollapseStateUpdate: (guid, collapsed) => {
     get().setEntityCollapsed(guid, collapsed, { source: "editor" });
   },
-  reparentEntity: (
+  reparentEntity: async (
     entityGuid,
     newParentGuid,
     options = { insertIndex: null, preserveTransform: true }
   ) => {
     if (!entityGuid) {
-      return;
+      return { success: false, error: "Missing entity" };
     }
     const state = get();
     const entity = state.entities[entityGuid];
     if (!entity) {
-      return;
+      return { success: false, error: `Entity ${entityGuid} not found` };
     }
 
     // Allow null/empty string for root reparent
@@ -608,11 +1254,14 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       newParentGuid = null;
     } else {
       if (entityGuid === newParentGuid) {
-        return;
+        return { success: false, error: "Cannot reparent entity to itself" };
       }
 
       if (!state.entities[newParentGuid]) {
-        return;
+        return {
+          success: false,
+          error: `Parent entity ${newParentGuid} not found`,
+        };
       }
     }
 
@@ -648,10 +1297,13 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       console.warn(
         "[GraphEditor] Cannot reparent entity into its own descendant"
       );
-      return;
+      return {
+        success: false,
+        error: "Cannot reparent entity into its own descendant",
+      };
     }
 
-    sendRuntimeMessage({
+    const request = dispatchMutation({
       type: "GRAPH_REPARENT_ENTITY",
       payload: {
         entityGuid,
@@ -660,8 +1312,6 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
           typeof options.insertIndex === "number" ? options.insertIndex : null,
         preserveTransform: options.preserveTransform !== false,
       },
-    }).catch((error) => {
-      console.error("[GraphStore] Failed to reparent entity:", error);
     });
 
     // Clear preview state after reparent
@@ -669,6 +1319,18 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       draggingEntityGuid: null,
       previewParentGuid: null,
     });
+
+    const response = await request;
+    if (!response.success) {
+      console.error("[GraphStore] Failed to reparent entity:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to reparent ${entity.name}`,
+          response
+        ),
+      });
+    }
+    return response;
   },
   setReparentPreview: (draggingGuid, previewParentGuid) => {
     set({
@@ -679,27 +1341,52 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
   toggleScriptPanel: (scriptNodeId) => {
     if (!scriptNodeId) return;
     set((state) => {
-      const current = !!state.scriptPanelState[scriptNodeId];
-      const willBeExpanded = !current;
+      // Values are "collapsed" flags and panels start collapsed
+      const collapsed = state.scriptPanelState[scriptNodeId] ?? true;
 
       return {
         scriptPanelState: {
           ...state.scriptPanelState,
-          [scriptNodeId]: willBeExpanded,
+          [scriptNodeId]: !collapsed,
         },
+        ...recordLayoutChange(state),
       };
     });
   },
-  setScriptPanelState: (scriptNodeId, collapsed) => {
-    if (!scriptNodeId) return;
-    set((state) => ({
-      scriptPanelState: {
-        ...state.scriptPanelState,
-        [scriptNodeId]: collapsed,
-      },
-    }));
+  toggleEntityPanel: (guid) => {
+    if (!guid) return;
+    set((state) => {
+      const entityPanelState = { ...state.entityPanelState };
+      if (entityPanelState[guid]) {
+        delete entityPanelState[guid];
+      } else {
+        entityPanelState[guid] = true;
+      }
+      return {
+        entityPanelState,
+        ...buildLayoutFromState(
+          state.rootGuid,
+          state.entities,
+          state.selectedEntityName,
+          state.manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          entityPanelState
+        ),
+      };
+    });
   },
-  updateScriptAttribute: (
+  setScriptPanelState: (scriptNodeId, collapsed) => {
+    if (!scriptNodeId) return;
+    set((state) => ({
+      scriptPanelState: {
+        ...state.scriptPanelState,
+        [scriptNodeId]: collapsed,
+      },
+    }));
+  },
+  updateScriptAttribute: async (
     entityGuid,
     scriptName,
     attributeName,
@@ -707,9 +1394,13 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     options = { sendRuntime: true }
   ) => {
     if (!entityGuid || !scriptName || !attributeName) {
-      return;
+      return { success: false, error: "Invalid attribute update" };
     }
 
+    const previousValue =
+      get().entities[entityGuid]?.components?.script?.scripts?.[scriptName]
+        ?.attributes?.[attributeName]?.value;
+
     set((state) => {
       const entity = state.entities[entityGuid];
       const scriptComponent = entity?.components?.script;
@@ -792,19 +1483,285 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       };
     });
 
-    if (options.sendRuntime !== false) {
-      sendRuntimeMessage({
-        type: "GRAPH_UPDATE_ATTRIBUTE",
-        payload: {
+    if (options.sendRuntime === false) {
+      return { success: true };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_UPDATE_ATTRIBUTE",
+      payload: {
+        entityGuid,
+        scriptName,
+        attributeName,
+        value,
+      },
+    });
+
+    if (!response.success) {
+      console.error("[GraphStore] Failed to update attribute:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to update ${scriptName}.${attributeName}`,
+          response
+        ),
+      });
+
+      // Roll back the optimistic write unless a newer edit already replaced it
+      const currentValue =
+        get().entities[entityGuid]?.components?.script?.scripts?.[scriptName]
+          ?.attributes?.[attributeName]?.value;
+      if (currentValue === value) {
+        get().updateScriptAttribute(
           entityGuid,
           scriptName,
           attributeName,
-          value,
-        },
-      }).catch((error) => {
-        console.error("[GraphStore] Failed to update attribute:", error);
+          previousValue,
+          { sendRuntime: false }
+        );
+        set((state) =>
+          buildLayoutFromState(
+            state.rootGuid,
+            state.entities,
+            state.selectedEntityName,
+            state.manualPositions,
+            state.collapsedState,
+            state.projectId,
+            state.sceneId,
+            state.entityPanelState
+          )
+        );
+      }
+    }
+    return response;
+  },
+  updateScriptAttributes: async (
+    entityGuids,
+    scriptName,
+    attributeName,
+    value
+  ) => {
+    const readValue = (entityGuid: string) =>
+      get().entities[entityGuid]?.components?.script?.scripts?.[scriptName]
+        ?.attributes?.[attributeName]?.value;
+    const targets = entityGuids.filter(
+      (guid) => get().entities[guid]?.components?.script?.scripts?.[scriptName]
+    );
+    if (!targets.length || !attributeName) {
+      return { success: false, error: "Invalid attribute update" };
+    }
+
+    const previousValues = targets.map(readValue);
+    const { updateScriptAttribute } = get();
+    targets.forEach((guid) => {
+      updateScriptAttribute(guid, scriptName, attributeName, value, {
+        sendRuntime: false,
+      });
+    });
+
+    const response = await dispatchMutation({
+      type: "GRAPH_UPDATE_ATTRIBUTES",
+      payload: { entityGuids: targets, scriptName, attributeName, value },
+    });
+
+    if (!response.success) {
+      console.error(
+        "[GraphStore] Failed to update attribute on multiple entities:",
+        response.error
+      );
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to update ${scriptName}.${attributeName}`,
+          response
+        ),
+      });
+
+      // Roll back the instances no newer edit has replaced
+      targets.forEach((guid, index) => {
+        if (readValue(guid) === value) {
+          updateScriptAttribute(
+            guid,
+            scriptName,
+            attributeName,
+            previousValues[index],
+            { sendRuntime: false }
+          );
+        }
+      });
+      set((state) =>
+        buildLayoutFromState(
+          state.rootGuid,
+          state.entities,
+          state.selectedEntityName,
+          state.manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          state.entityPanelState
+        )
+      );
+    }
+    return response;
+  },
+  updateEntityProperty: async (
+    entityGuid,
+    property,
+    value,
+    options = { sendRuntime: true }
+  ) => {
+    const entity = get().entities[entityGuid];
+    if (!entity) {
+      return { success: false, error: `Entity ${entityGuid} not found` };
+    }
+    const previousValue = entity[property];
+
+    set((state) => {
+      const current = state.entities[entityGuid];
+      if (!current) {
+        return {};
+      }
+      const entities = {
+        ...state.entities,
+        [entityGuid]: { ...current, [property]: value },
+      };
+      return {
+        entities,
+        ...buildLayoutFromState(
+          state.rootGuid,
+          entities,
+          state.selectedEntityName,
+          state.manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          state.entityPanelState
+        ),
+      };
+    });
+
+    if (options.sendRuntime === false) {
+      return { success: true };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_UPDATE_ENTITY_PROPERTY",
+      payload: { entityGuid, property, value },
+    });
+
+    if (!response.success) {
+      console.error(
+        "[GraphStore] Failed to update entity property:",
+        response.error
+      );
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to update ${entity.name}.${property}`,
+          response
+        ),
       });
+
+      // Roll back the optimistic write unless a newer edit already replaced it
+      if (
+        previousValue !== undefined &&
+        get().entities[entityGuid]?.[property] === value
+      ) {
+        get().updateEntityProperty(
+          entityGuid,
+          property,
+          previousValue as EntityCoreProperties[typeof property],
+          { sendRuntime: false }
+        );
+      }
     }
+    return response;
+  },
+  updateComponentProperty: async (
+    entityGuid,
+    path,
+    value,
+    options = { sendRuntime: true }
+  ) => {
+    const segments = path ? path.split(".") : [];
+    const entity = get().entities[entityGuid];
+    if (!entity || segments[0] !== "components" || segments.length < 3) {
+      return { success: false, error: "Invalid component property update" };
+    }
+
+    const previousValue = getAtPath(entity, segments);
+
+    set((state) => {
+      const current = state.entities[entityGuid];
+      if (!current?.components?.[segments[1]]) {
+        return {};
+      }
+      const entities = {
+        ...state.entities,
+        [entityGuid]: setAtPath(current, segments, value),
+      };
+      return {
+        entities,
+        ...buildLayoutFromState(
+          state.rootGuid,
+          entities,
+          state.selectedEntityName,
+          state.manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          state.entityPanelState
+        ),
+      };
+    });
+
+    if (options.sendRuntime === false) {
+      return { success: true };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_UPDATE_COMPONENT_PROPERTY",
+      payload: { entityGuid, path, value },
+    });
+
+    if (!response.success) {
+      console.error(
+        "[GraphStore] Failed to update component property:",
+        response.error
+      );
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to update ${segments.slice(1).join(".")}`,
+          response
+        ),
+      });
+
+      // Roll back the optimistic write unless a newer edit already replaced it
+      const currentValue = getAtPath(get().entities[entityGuid], segments);
+      if (currentValue === value) {
+        get().updateComponentProperty(entityGuid, path, previousValue, {
+          sendRuntime: false,
+        });
+      }
+    }
+    return response;
+  },
+  repairBrokenReferences: async (fixes) => {
+    const updates = buildReferenceFixUpdates(get().entities, fixes);
+    if (!updates.length) {
+      return { success: true };
+    }
+    const responses = await Promise.all(
+      updates.map((update) =>
+        get().updateScriptAttribute(
+          update.entityGuid,
+          update.scriptName,
+          update.attributeName,
+          update.value
+        )
+      )
+    );
+    // updateScriptAttribute has already reported each failure
+    return (
+      responses.find((response) => !response.success) ?? { success: true }
+    );
   },
   clearScriptAttribute: (
     entityGuid,
@@ -813,25 +1770,45 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     options = { removeEdge: true }
   ) => {
     if (!entityGuid || !scriptName || !attributeName) {
-      return;
+      return Promise.resolve({
+        success: false,
+        error: "Invalid attribute update",
+      });
     }
 
-    const { removeEdge = true } = options;
+    const { removeEdge = true, path = [] } = options;
     const scriptNodeId = `${entityGuid}-${scriptName}`;
+    const handleId = getEntitySlotHandleId(attributeName, path);
 
     if (removeEdge) {
       set((state) => ({
         edges: state.edges.filter(
           (edge) =>
-            !(
-              edge.source === scriptNodeId &&
-              edge.sourceHandle === attributeName
-            )
+            !(edge.source === scriptNodeId && edge.sourceHandle === handleId)
         ),
       }));
     }
 
-    get().updateScriptAttribute(entityGuid, scriptName, attributeName, null);
+    // A path clears one element or field and leaves the rest in place
+    const value = path.length
+      ? setAtPath(
+          getScriptAttributeValue(
+            get().entities,
+            entityGuid,
+            scriptName,
+            attributeName
+          ),
+          path.map(String),
+          null
+        )
+      : null;
+
+    return get().updateScriptAttribute(
+      entityGuid,
+      scriptName,
+      attributeName,
+      value
+    );
   },
   toggleEntityCollapse: (guid) => {
     if (!guid) {
@@ -840,39 +1817,337 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
     const current = !!get().collapsedState[guid];
     get().setEntityCollapsed(guid, !current, { source: "extension" });
   },
-  upsertEntity: (entity) => {
+  addEntity: async (parentGuid, name = "New Entity") => {
+    const response = await dispatchMutation<AddEntityResult>({
+      type: "GRAPH_ADD_ENTITY",
+      payload: {
+        parentGuid,
+        name,
+      },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to add entity:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          "Failed to add entity",
+          response
+        ),
+      });
+    }
+    return response;
+  },
+  addScript: async (entityGuid, scriptName) => {
+    const entity = get().entities[entityGuid];
+    if (!entity) {
+      return { success: false, error: `Entity ${entityGuid} not found` };
+    }
+
+    // The script node arrives with its defaults through the component patch
+    const response = await dispatchMutation({
+      type: "GRAPH_ADD_SCRIPT",
+      payload: { entityGuid, scriptName },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to add script:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to add ${scriptName} to ${entity.name}`,
+          response
+        ),
+      });
+      return response;
+    }
+
+    // Open the new script so its attributes can be filled in right away
+    get().setScriptPanelState(`${entityGuid}-${scriptName}`, false);
+    return response;
+  },
+  removeScript: async (entityGuid, scriptName) => {
+    const entity = get().entities[entityGuid];
+    if (!entity) {
+      return { success: false, error: `Entity ${entityGuid} not found` };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_REMOVE_SCRIPT",
+      payload: { entityGuid, scriptName },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to remove script:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to remove ${scriptName} from ${entity.name}`,
+          response
+        ),
+      });
+      return response;
+    }
+
+    const scriptNodeId = `${entityGuid}-${scriptName}`;
     set((state) => {
-      const entities = { ...state.entities, [entity.guid]: entity };
+      const scriptPanelState = { ...state.scriptPanelState };
+      delete scriptPanelState[scriptNodeId];
+      return {
+        scriptPanelState,
+        selectedScriptNodeId:
+          state.selectedScriptNodeId === scriptNodeId
+            ? null
+            : state.selectedScriptNodeId,
+      };
+    });
+    return response;
+  },
+  reorderScripts: async (
+    entityGuid,
+    order,
+    options = { sendRuntime: true }
+  ) => {
+    const entity = get().entities[entityGuid];
+    if (!entity?.components?.script) {
+      return { success: false, error: `${entityGuid} has no scripts` };
+    }
+    const previousOrder = getScriptOrder(entity);
+    const changed = !isSameOrder(previousOrder, order);
 
-      const { nodes, edges } = buildLayoutFromState(
-        state.rootGuid,
+    set((state) => {
+      const current = state.entities[entityGuid];
+      if (!current?.components?.script) {
+        return {};
+      }
+      const entities = changed
+        ? {
+            ...state.entities,
+            [entityGuid]: {
+              ...current,
+              components: {
+                ...current.components,
+                script: { ...current.components.script, order },
+              },
+            },
+          }
+        : state.entities;
+
+      const manualPositions = { ...state.manualPositions };
+      previousOrder.forEach((name) => {
+        delete manualPositions[`${entityGuid}-${name}`];
+      });
+      if (state.projectId != null && state.sceneId != null) {
+        persistLayoutState(
+          state.projectId,
+          state.sceneId,
+          manualPositions,
+          state.collapsedState
+        );
+      }
+
+      return {
         entities,
-        state.selectedEntityName,
-        state.manualPositions,
-        state.collapsedState,
-        state.projectId,
-        state.sceneId
-      );
+        manualPositions,
+        ...buildLayoutFromState(
+          state.rootGuid,
+          entities,
+          state.selectedEntityName,
+          manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          state.entityPanelState
+        ),
+      };
+    });
+
+    if (!changed || options.sendRuntime === false) {
+      return { success: true };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_SET_SCRIPT_ORDER",
+      payload: { entityGuid, order },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to reorder scripts:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to reorder scripts on ${entity.name}`,
+          response
+        ),
+      });
+      const currentEntity = get().entities[entityGuid];
+      if (currentEntity && isSameOrder(getScriptOrder(currentEntity), order)) {
+        get().reorderScripts(entityGuid, previousOrder, {
+          sendRuntime: false,
+        });
+      }
+    }
+    return response;
+  },
+  setRenamingEntity: (guid) => {
+    set({ renamingEntityGuid: guid });
+  },
+  renameEntity: async (guid, name, options = { sendRuntime: true }) => {
+    const entity = get().entities[guid];
+    const nextName = name.trim();
+    if (!entity) {
+      return { success: false, error: `Entity ${guid} not found` };
+    }
+    if (!nextName || nextName === entity.name) {
+      return { success: true };
+    }
+    const previousName = entity.name;
 
+    set((state) => {
+      const current = state.entities[guid];
+      if (!current) {
+        return {};
+      }
+      const entities = {
+        ...state.entities,
+        [guid]: { ...current, name: nextName },
+      };
+      const selectedEntityName =
+        state.selectedEntityGuid === guid
+          ? nextName
+          : state.selectedEntityName;
       return {
         entities,
-        nodes,
-        edges,
-        isLoading: false,
-        error: null,
+        selectedEntityName,
+        ...buildLayoutFromState(
+          state.rootGuid,
+          entities,
+          selectedEntityName,
+          state.manualPositions,
+          state.collapsedState,
+          state.projectId,
+          state.sceneId,
+          state.entityPanelState
+        ),
       };
     });
+
+    if (options.sendRuntime === false) {
+      return { success: true };
+    }
+
+    const response = await dispatchMutation({
+      type: "GRAPH_RENAME_ENTITY",
+      payload: { entityGuid: guid, name: nextName },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to rename entity:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to rename ${previousName}`,
+          response
+        ),
+      });
+      if (get().entities[guid]?.name === nextName) {
+        get().renameEntity(guid, previousName, { sendRuntime: false });
+      }
+    }
+    return response;
   },
-  addEntity: (parentGuid) => {
-    sendRuntimeMessage({
-      type: "GRAPH_ADD_ENTITY",
-      payload: {
-        parentGuid,
-        name: "New Entity",
-      },
-    }).catch((error) => {
-      console.error("[GraphStore] Failed to add entity:", error);
+  deleteEntities: async (guids) => {
+    const state = get();
+    if (state.rootGuid && guids.includes(state.rootGuid)) {
+      return { success: false, error: "The scene root cannot be deleted" };
+    }
+    // Descendants of another selected entity go with it
+    const selected = new Set(guids);
+    const hasSelectedAncestor = (guid: string) => {
+      let parentId = state.entities[guid]?.parentId;
+      while (parentId) {
+        if (selected.has(parentId)) return true;
+        parentId = state.entities[parentId]?.parentId;
+      }
+      return false;
+    };
+    const entityGuids = guids.filter(
+      (guid) => state.entities[guid] && !hasSelectedAncestor(guid)
+    );
+    if (!entityGuids.length) {
+      return { success: false, error: "Nothing to delete" };
+    }
+
+    // The entities leave the graph when the bridge reports the removals
+    const response = await dispatchMutation({
+      type: "GRAPH_DELETE_ENTITIES",
+      payload: { entityGuids },
+    });
+    if (!response.success) {
+      console.error("[GraphStore] Failed to delete entities:", response.error);
+      set({
+        mutationError: describeMutationFailure(
+          entityGuids.length === 1
+            ? `Failed to delete ${state.entities[entityGuids[0]].name}`
+            : `Failed to delete ${entityGuids.length} entities`,
+          response
+        ),
+      });
+    }
+    return response;
+  },
+  duplicateEntities: async (guids) => {
+    const state = get();
+    const entityGuids = guids.filter(
+      (guid) => state.entities[guid] && guid !== state.rootGuid
+    );
+    if (!entityGuids.length) {
+      return { success: false, error: "Nothing to duplicate" };
+    }
+
+    const response = await dispatchMutation<DuplicateEntitiesResult>({
+      type: "GRAPH_DUPLICATE_ENTITIES",
+      payload: { entityGuids },
+    });
+    if (!response.success || !response.data) {
+      console.error(
+        "[GraphStore] Failed to duplicate entities:",
+        response.error
+      );
+      set({
+        mutationError: describeMutationFailure(
+          "Failed to duplicate",
+          response
+        ),
+      });
+      return response;
+    }
+
+    const { duplicates } = response.data;
+    set((current) => {
+      const manualPositions = copyDuplicatePositions(
+        current.manualPositions,
+        current.nodes,
+        duplicates,
+        new Set(entityGuids)
+      );
+      if (manualPositions === current.manualPositions) {
+        return {};
+      }
+      if (current.projectId != null && current.sceneId != null) {
+        persistLayoutState(
+          current.projectId,
+          current.sceneId,
+          manualPositions,
+          current.collapsedState
+        );
+      }
+      // The copies may already have arrived as patches before this response
+      return {
+        manualPositions,
+        ...buildLayoutFromState(
+          current.rootGuid,
+          current.entities,
+          current.selectedEntityName,
+          manualPositions,
+          current.collapsedState,
+          current.projectId,
+          current.sceneId,
+          current.entityPanelState
+        ),
+      };
     });
+    return response;
   },
   removeEntity: (guid) => {
     if (!get().entities[guid]) {
@@ -896,63 +2171,33 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
         delete entities[id];
       });
 
-      const manualPositions = { ...state.manualPositions };
-      Object.keys(manualPositions).forEach((key) => {
-        if (toRemove.has(key)) {
-          delete manualPositions[key];
-          return;
-        }
-        for (const id of toRemove) {
-          if (key.startsWith(`${id}-`)) {
-            delete manualPositions[key];
-            break;
-          }
-        }
-      });
-
-      const collapsedState = { ...state.collapsedState };
-      toRemove.forEach((id) => {
-        delete collapsedState[id];
-      });
-
-      const selectionRemoved = toRemove.has(state.selectedEntityGuid || "");
-      const scriptSelectionRemoved =
-        state.selectedScriptNodeId &&
-        (toRemove.has(state.selectedScriptNodeId) ||
-          Array.from(toRemove).some((id) =>
-            state.selectedScriptNodeId!.startsWith(`${id}-`)
-          ));
+      const pruned = pruneRemovedEntityState(state, toRemove);
 
       const { nodes, edges } = buildLayoutFromState(
         state.rootGuid,
         entities,
-        selectionRemoved ? null : state.selectedEntityName,
-        manualPositions,
-        collapsedState,
+        pruned.selectedEntityName,
+        pruned.manualPositions,
+        pruned.collapsedState,
         state.projectId,
-        state.sceneId
+        state.sceneId,
+        state.entityPanelState
       );
 
       if (state.projectId != null && state.sceneId != null) {
         persistLayoutState(
           state.projectId,
           state.sceneId,
-          manualPositions,
-          collapsedState
+          pruned.manualPositions,
+          pruned.collapsedState
         );
       }
 
       return {
+        ...pruned,
         entities,
         nodes,
         edges,
-        manualPositions,
-        collapsedState,
-        selectedEntityGuid: selectionRemoved ? null : state.selectedEntityGuid,
-        selectedScriptNodeId: scriptSelectionRemoved
-          ? null
-          : state.selectedScriptNodeId,
-        selectedEntityName: selectionRemoved ? null : state.selectedEntityName,
       };
     });
   },
@@ -982,6 +2227,7 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
         payload,
         manualPositions: layoutState.manualPositions,
         collapsedState,
+        entityPanelState: state.entityPanelState,
         projectId: payload.projectId ?? null,
         sceneId: payload.sceneId ?? null,
       });
@@ -1005,11 +2251,161 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
         rootGuid: payload.rootGuid,
         projectId: incomingProjectId,
         sceneId: incomingSceneId,
+        projectName: payload.projectName ?? null,
+        sceneName: payload.sceneName ?? null,
         manualPositions: layoutState.manualPositions,
         collapsedState,
+        lintRuleSettings:
+          incomingProjectId !== state.projectId
+            ? loadLintRuleSettings(incomingProjectId)
+            : state.lintRuleSettings,
+        lastSequence: payload.sequence ?? 0,
+        patchSessionId: payload.sessionId ?? null,
+        awaitingSnapshot: false,
       };
     });
   },
+  resyncGraphData: (payload) => {
+    const state = get();
+    const sameScene =
+      state.rootGuid !== null &&
+      state.projectId === (payload.projectId ?? null) &&
+      state.sceneId === (payload.sceneId ?? null);
+
+    if (!sameScene) {
+      state.setGraphData(payload);
+      return;
+    }
+
+    // The editor may have reloaded and lost its hierarchy expansion and
+    // selection; keep the graph's view of both and push it back.
+    const previousCollapsedState = state.collapsedState;
+    const editorCollapsedState = payload.collapsedState || {};
+    const { selectedEntityGuid, selectedEntityGuids, selectedScriptNodeId } =
+      state;
+
+    state.setGraphData({ ...payload, collapsedState: previousCollapsedState });
+
+    const { entities } = get();
+    const guids = new Set([
+      ...Object.keys(previousCollapsedState),
+      ...Object.keys(editorCollapsedState),
+    ]);
+    guids.forEach((guid) => {
+      const collapsed = !!previousCollapsedState[guid];
+      if (!entities[guid] || collapsed === !!editorCollapsedState[guid]) {
+        return;
+      }
+      dispatchMutation({
+        type: "GRAPH_SET_COLLAPSE_STATE",
+        payload: { entityGuid: guid, collapsed },
+      }).then((response) => {
+        if (!response.success) {
+          console.warn(
+            "[GraphStore] Failed to restore collapse state:",
+            response.error
+          );
+        }
+      });
+    });
+
+    if (selectedEntityGuids.length > 1) {
+      get().clearSelection();
+      get().setSelectedEntities(selectedEntityGuids);
+    } else if (selectedEntityGuid && entities[selectedEntityGuid]) {
+      get().clearSelection();
+      get().setSelectedEntity(
+        selectedEntityGuid,
+        entities[selectedEntityGuid].name,
+        selectedScriptNodeId
+      );
+    }
+  },
+  applyScenePatch: (patch) => {
+    const state = get();
+    if (!state.rootGuid || state.awaitingSnapshot) {
+      return "ignored";
+    }
+
+    const sameSession = patch.sessionId === state.patchSessionId;
+    if (sameSession && patch.sequence <= state.lastSequence) {
+      return "ignored";
+    }
+    if (!sameSession || patch.sequence !== state.lastSequence + 1) {
+      console.warn(
+        `[GraphStore] Missed scene patches (have ${state.lastSequence}, got ${patch.sequence}); requesting a snapshot`
+      );
+      set({ awaitingSnapshot: true });
+      return "gap";
+    }
+
+    const { entities, removed } = applyPatchOps(state.entities, patch.ops);
+    const pruned = removed.length
+      ? pruneRemovedEntityState(state, new Set(removed))
+      : null;
+    const manualPositions = pruned?.manualPositions ?? state.manualPositions;
+    const collapsedState = pruned?.collapsedState ?? state.collapsedState;
+    const selection = pruned ?? state;
+    const removedEntityNames = removed.length
+      ? { ...state.removedEntityNames }
+      : state.removedEntityNames;
+    removed.forEach((guid) => {
+      if (state.entities[guid]) {
+        removedEntityNames[guid] = state.entities[guid].name;
+      }
+    });
+    // Keep the selected label in sync when the selected entity is renamed
+    const selectedEntityName = selection.selectedEntityGuid
+      ? entities[selection.selectedEntityGuid]?.name ??
+        selection.selectedEntityName
+      : selection.selectedEntityName;
+
+    const { nodes, edges } = buildLayoutFromState(
+      state.rootGuid,
+      entities,
+      selectedEntityName,
+      manualPositions,
+      collapsedState,
+      state.projectId,
+      state.sceneId,
+      state.entityPanelState
+    );
+
+    if (pruned && state.projectId != null && state.sceneId != null) {
+      persistLayoutState(
+        state.projectId,
+        state.sceneId,
+        manualPositions,
+        collapsedState
+      );
+    }
+
+    set({
+      ...pruned,
+      entities,
+      // Rebuilt nodes start unselected; keep the selection highlighted
+      nodes: decorateSelectedNodes(
+        nodes,
+        selection.selectedEntityGuids,
+        selection.selectedScriptNodeId
+      ),
+      edges,
+      selectedEntityName,
+      removedEntityNames,
+      lastSequence: patch.sequence,
+    });
+    return "applied";
+  },
+  setConnectionStatus: (status, detail = null) => {
+    const state = get();
+    if (
+      state.connectionStatus === status &&
+      state.connectionDetail === detail
+    ) {
+      return;
+    }
+    set({ connectionStatus: status, connectionDetail: detail });
+  },
   focusEntity: (entityGuid, options = {}) => {
     if (!entityGuid) {
       return;
@@ -1027,14 +2423,33 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       broadcast: options?.broadcast !== false,
     });
     if (options?.requestViewportFocus !== false) {
-      sendRuntimeMessage({
+      dispatchMutation({
         type: "GRAPH_FOCUS_ENTITY",
         payload: { entityGuid },
-      }).catch((error) => {
-        console.error("[GraphStore] Failed to focus entity:", error);
+      }).then((response) => {
+        if (!response.success) {
+          console.error("[GraphStore] Failed to focus entity:", response.error);
+          set({
+            mutationError: describeMutationFailure(
+              `Failed to focus ${entity.name}`,
+              response
+            ),
+          });
+        }
       });
     }
   },
+  revealEntity: (entityGuid, options) => {
+    const state = get();
+    const expand: Record<string, boolean> = {};
+    let parentId = state.entities[entityGuid]?.parentId ?? null;
+    while (parentId && !(parentId in expand)) {
+      expand[parentId] = false;
+      parentId = state.entities[parentId]?.parentId ?? null;
+    }
+    applyCollapseChanges(state, expand, "extension", set);
+    get().focusEntity(entityGuid, options);
+  },
   clearPendingFocus: () => {
     if (get().pendingFocusGuid !== null) {
       set({ pendingFocusGuid: null });
@@ -1048,10 +2463,111 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       error: value ? null : state.error,
     })),
   setError: (message) =>
-    set({
+    set((state) => ({
       error: message,
       isLoading: false,
-    }),
+      // A failed snapshot request must not leave patches ignored for good;
+      // the next patch reports a gap again and retries the resync
+      awaitingSnapshot: message ? false : state.awaitingSnapshot,
+    })),
+  clearMutationError: () => {
+    if (get().mutationError !== null) {
+      set({ mutationError: null });
+    }
+  },
+  setEditorHistory: (history) => set({ editorHistory: history }),
+  setReferenceHighlight: (guid) => set({ referenceHighlightGuid: guid }),
+  setLintRuleEnabled: (ruleId, enabled) => {
+    const { projectId, lintRuleSettings } = get();
+    const next = { ...lintRuleSettings, [ruleId]: enabled };
+    persistLintRuleSettings(projectId, next);
+    set({ lintRuleSettings: next });
+  },
+  undoLayout: () => {
+    const state = get();
+    const { past } = state.layoutHistory;
+    const previous = past[past.length - 1];
+    if (!previous) {
+      return;
+    }
+    restoreLayoutSnapshot(state, previous, set);
+    set({
+      layoutHistory: {
+        past: past.slice(0, -1),
+        future: [takeLayoutSnapshot(state), ...state.layoutHistory.future],
+      },
+    });
+  },
+  redoLayout: () => {
+    const state = get();
+    const [next, ...future] = state.layoutHistory.future;
+    if (!next) {
+      return;
+    }
+    restoreLayoutSnapshot(state, next, set);
+    set({
+      layoutHistory: {
+        past: [...state.layoutHistory.past, takeLayoutSnapshot(state)],
+        future,
+      },
+    });
+  },
+  resetSubtreeLayout: (guid) => {
+    const state = get();
+    const subtree = collectSubtree(state.entities, guid);
+    const belongsToSubtree = (nodeId: string) =>
+      subtree.has(nodeId) ||
+      Array.from(subtree).some((entityGuid) =>
+        nodeId.startsWith(`${entityGuid}-`)
+      );
+    const removedIds = Object.keys(state.manualPositions).filter(
+      belongsToSubtree
+    );
+    if (!removedIds.length) {
+      return;
+    }
+
+    const manualPositions = { ...state.manualPositions };
+    removedIds.forEach((id) => delete manualPositions[id]);
+    set({
+      manualPositions,
+      ...recordLayoutChange(state),
+      ...buildLayoutFromState(
+        state.rootGuid,
+        state.entities,
+        state.selectedEntityName,
+        manualPositions,
+        state.collapsedState,
+        state.projectId,
+        state.sceneId,
+        state.entityPanelState
+      ),
+    });
+    persistLayoutState(
+      state.projectId,
+      state.sceneId,
+      manualPositions,
+      state.collapsedState
+    );
+  },
+  stepEditorHistory: async (direction, steps = 1) => {
+    const response = await dispatchMutation<HistoryStatePayload>({
+      type: "GRAPH_HISTORY_STEP",
+      payload: { direction, steps },
+    });
+    if (!response.success) {
+      console.error(`[GraphStore] Failed to ${direction}:`, response.error);
+      set({
+        mutationError: describeMutationFailure(
+          `Failed to ${direction}`,
+          response
+        ),
+      });
+    } else if (response.data) {
+      set({ editorHistory: response.data });
+    }
+    return response;
+  },
   reset: () =>
     set({
       nodes: [],
@@ -1060,15 +2576,29 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       rootGuid: null,
       projectId: null,
       sceneId: null,
+      projectName: null,
+      sceneName: null,
       manualPositions: {},
       collapsedState: {},
+      entityPanelState: {},
       selectedEntityGuid: null,
+      selectedEntityGuids: [],
       selectedScriptNodeId: null,
       selectedEntityName: null,
+      renamingEntityGuid: null,
       draggingEntityGuid: null,
       previewParentGuid: null,
       isLoading: true,
       error: null,
+      mutationError: null,
+      lastSequence: 0,
+      patchSessionId: null,
+      awaitingSnapshot: false,
+      editorHistory: EMPTY_HISTORY,
+      layoutHistory: { past: [], future: [] },
+      referenceHighlightGuid: null,
+      removedEntityNames: {},
+      lintRuleSettings: {},
     }),
   getAssets: async (assetType?: string) => {
     try {
@@ -1091,6 +2621,72 @@ export const useGraphEditorStore = create<GraphEditorState>((set, get) => ({
       return [];
     }
   },
+  loadAssets: async () => {
+    const assets = await get().getAssets();
+    set({
+      assets: Object.fromEntries(
+        assets.map((asset) => [String(asset.id), asset])
+      ),
+    });
+  },
+  assignAsset: async (scriptNodeId, attributeName, assetId) => {
+    const state = get();
+    const scriptNode = state.nodes.find((node) => node.id === scriptNodeId);
+    const entityGuid = scriptNode?.parentNode;
+    const scriptName = scriptNode?.data?.scriptName as string | undefined;
+    const attribute = entityGuid
+      ? state.entities[entityGuid]?.components?.script?.scripts?.[
+          scriptName ?? ""
+        ]?.attributes?.[attributeName]
+      : undefined;
+    if (!entityGuid || !scriptName || !attribute) {
+      return { success: false, error: "Invalid attribute update" };
+    }
+    const type = attribute.type || attribute.definition?.type;
+    if (type !== "asset") {
+      return {
+        success: false,
+        error: `${scriptName}.${attributeName} does not take assets`,
+      };
+    }
+
+    // Asset ids are numbers in the editor; keep whatever type it reported
+    const rawId = state.assets[assetId]?.id ?? assetId;
+    const value = Array.isArray(attribute.value)
+      ? attribute.value.some((id: unknown) => String(id) === assetId)
+        ? attribute.value
+        : [...attribute.value, rawId]
+      : rawId;
+    if (value === attribute.value) {
+      return { success: true };
+    }
+    return state.updateScriptAttribute(
+      entityGuid,
+      scriptName,
+      attributeName,
+      value
+    );
+  },
+  getScripts: async () => {
+    try {
+      const response = await sendRuntimeMessage<{
+        success: boolean;
+        error?: string;
+        data?: ScriptsListPayload;
+      }>({
+        type: "GRAPH_REQUEST_SCRIPTS",
+      });
+
+      if (response.success && response.data?.scripts) {
+        return response.data.scripts;
+      }
+      console.warn("[GraphStore] getScripts: No scripts in response", response);
+      return [];
+    } catch (error) {
+      console.error("[GraphStore] Failed to get scripts:", error);
+      return [];
+    }
+  },
 }));
 
 // Expose store to window for debugging (optional)
@@ -0,0 +1,114 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+type HistoryAction = { undo: () => void; redo: () => void };
+
+// Just enough of the editor's observers: values keyed by their full path
+const createObserver = (values: Record<string, unknown>) => ({
+  get: (path: string) => values[path],
+  has: (path: string) =>
+    Object.keys(values).some(
+      (key) => key === path || key.startsWith(`${path}.`)
+    ),
+  set: (path: string, value: unknown) => {
+    values[path] = value;
+  },
+  unset: (path: string) => {
+    delete values[path];
+  },
+});
+
+const RATE_PATH = "components.script.scripts.spawner.attributes.rate";
+
+let entities: Record<string, ReturnType<typeof createObserver>>;
+let history: HistoryAction[];
+let deleted: unknown[][];
+
+const send = (type: string, payload: unknown) => {
+  window.dispatchEvent(
+    new MessageEvent("message", {
+      source: window,
+      data: { type, requestId: "test", payload },
+    })
+  );
+};
+
+beforeAll(() => {
+  // Keeps the bridge's wait-for-editor polling from running
+  vi.useFakeTimers();
+  const source = readFileSync(
+    resolve(process.cwd(), "public/editor-bridge.js"),
+    "utf8"
+  );
+  new Function(source)();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  entities = {
+    a: createObserver({ name: "a", parent: "root", [RATE_PATH]: 5 }),
+    b: createObserver({ name: "b", parent: "root", [RATE_PATH]: 5 }),
+  };
+  history = [];
+  deleted = [];
+  (window as unknown as { editor: unknown }).editor = {
+    call: (name: string, arg: unknown) => {
+      if (name === "entities:get") return entities[arg as string] ?? null;
+      if (name === "entities:delete") deleted.push(arg as unknown[]);
+    },
+    api: {
+      globals: {
+        history: { add: (action: HistoryAction) => history.push(action) },
+      },
+    },
+  };
+});
+
+describe("editor bridge attribute writes", () => {
+  it("writes falsy values to every entity of a bulk edit", () => {
+    send("GRAPH_UPDATE_ATTRIBUTES", {
+      entityGuids: ["a", "b"],
+      scriptName: "spawner",
+      attributeName: "rate",
+      value: 0,
+    });
+
+    expect(entities.a.get(RATE_PATH)).toBe(0);
+    expect(entities.b.get(RATE_PATH)).toBe(0);
+  });
+
+  it("undoes back to a falsy previous value", () => {
+    entities.a.set(RATE_PATH, 0);
+
+    send("GRAPH_UPDATE_ATTRIBUTE", {
+      entityGuid: "a",
+      scriptName: "spawner",
+      attributeName: "rate",
+      value: 3,
+    });
+    expect(entities.a.get(RATE_PATH)).toBe(3);
+
+    history[0].undo();
+    expect(entities.a.get(RATE_PATH)).toBe(0);
+  });
+});
+
+describe("editor bridge entity deletes", () => {
+  it("deletes every requested entity with one editor command", () => {
+    send("GRAPH_DELETE_ENTITIES", { entityGuids: ["a", "b"] });
+
+    expect(deleted).toEqual([[entities.a, entities.b]]);
+  });
+});
@@ -38,21 +38,109 @@ export interface ComponentPayload {
   attributes?: Record<string, ScriptAttributePayload>;
 }
 
+export type Vec3 = [number, number, number];
+
 export interface EntityPayload {
   guid: string;
   name: string;
   parentId: string | null;
   children: string[];
   components: Record<string, ComponentPayload>;
+  enabled?: boolean;
+  tags?: string[];
+  position?: Vec3;
+  /**
+   * Local euler angles in degrees.
+   */
+  rotation?: Vec3;
+  scale?: Vec3;
+}
+
+export interface EntityCoreProperties {
+  enabled: boolean;
+  tags: string[];
+  position: Vec3;
+  rotation: Vec3;
+  scale: Vec3;
 }
 
+export type EntityCoreProperty = keyof EntityCoreProperties;
+
 export interface SceneGraphPayload {
   rootGuid: string;
   entities: Record<string, EntityPayload>;
   selectedEntityName: string | null;
   projectId: number | string | null;
   sceneId: number | string | null;
+  projectName?: string | null;
+  sceneName?: string | null;
   collapsedState?: Record<string, boolean>;
+  /**
+   * Sequence number of the last patch the bridge emitted before taking this
+   * snapshot; patches at or below it are already reflected in `entities`.
+   */
+  sequence?: number;
+  sessionId?: string;
+}
+
+/**
+ * A single fine-grained change to the scene, emitted by the editor bridge.
+ */
+export type ScenePatchOp =
+  | { op: "entity:add"; entity: EntityPayload; index?: number | null }
+  | { op: "entity:remove"; guid: string }
+  | {
+      op: "entity:move";
+      guid: string;
+      parentId: string | null;
+      index?: number | null;
+    }
+  | { op: "entity:set"; guid: string; path: string; value: unknown }
+  | {
+      op: "component:set";
+      guid: string;
+      component: string;
+      data: ComponentPayload | null;
+    }
+  | {
+      op: "attribute:set";
+      guid: string;
+      scriptName: string;
+      attributeName: string;
+      attribute: ScriptAttributePayload;
+    };
+
+export interface ScenePatchPayload {
+  sessionId: string;
+  /**
+   * Increases by one for every patch within a bridge session, so a skipped
+   * number means the graph missed changes and must fetch a snapshot.
+   */
+  sequence: number;
+  ops: ScenePatchOp[];
+}
+
+export interface HeartbeatPayload {
+  ready: boolean;
+  /**
+   * Changes every time the editor bridge is (re)injected, i.e. whenever the
+   * PlayCanvas editor tab reloads.
+   */
+  sessionId: string;
+  reason?: string;
+}
+
+export interface EditorInfoPayload {
+  projectId: number | string | null;
+  projectName: string | null;
+  sceneId: number | string | null;
+  sceneName: string | null;
+}
+
+export interface EditorTabInfo extends EditorInfoPayload {
+  tabId: number;
+  title: string;
+  url: string;
 }
 
 export interface UpdateAttributePayload {
@@ -62,9 +150,43 @@ export interface UpdateAttributePayload {
   value: any;
 }
 
+/**
+ * The same attribute value written to one script on several entities.
+ */
+export interface BulkUpdateAttributePayload {
+  entityGuids: string[];
+  scriptName: string;
+  attributeName: string;
+  value: any;
+}
+
+export interface UpdateComponentPropertyPayload {
+  entityGuid: string;
+  /**
+   * Full observer path, e.g. `components.light.intensity`.
+   */
+  path: string;
+  value: any;
+}
+
+export interface UpdateEntityPropertyPayload<
+  TProperty extends EntityCoreProperty = EntityCoreProperty
+> {
+  entityGuid: string;
+  property: TProperty;
+  value: EntityCoreProperties[TProperty];
+}
+
 export interface UpdateSelectionPayload {
+  /**
+   * Primary selection, i.e. the first of `entityGuids`.
+   */
   entityGuid: string | null;
   entityName?: string | null;
+  /**
+   * Every selected entity, in selection order.
+   */
+  entityGuids?: string[];
 }
 
 export interface FocusEntityPayload {
@@ -78,16 +200,23 @@ export interface GraphResponse {
   data?: SceneGraphPayload;
 }
 
-export interface EntityMutationPayload {
-  entity: EntityPayload;
+/**
+ * Acknowledgement sent back by the editor bridge once a mutation request
+ * has been applied (or rejected) inside the PlayCanvas editor.
+ */
+export interface MutationResponse<TData = unknown> {
+  success: boolean;
+  error?: string;
+  data?: TData | null;
 }
 
-export interface EntityRemovalPayload {
+export interface CollapseStateUpdatePayload {
   guid: string;
+  collapsed: boolean;
 }
 
-export interface CollapseStateUpdatePayload {
-  guid: string;
+export interface SetCollapseStatePayload {
+  entityGuid: string;
   collapsed: boolean;
 }
 
@@ -98,6 +227,36 @@ export interface ReparentEntityPayload {
   preserveTransform?: boolean;
 }
 
+export interface AddEntityPayload {
+  parentGuid: string | null;
+  name?: string;
+}
+
+export interface RenameEntityPayload {
+  entityGuid: string;
+  name: string;
+}
+
+export interface DeleteEntitiesPayload {
+  entityGuids: string[];
+}
+
+export interface AddEntityResult {
+  guid: string;
+}
+
+export interface DuplicateEntitiesPayload {
+  entityGuids: string[];
+}
+
+export interface DuplicateEntitiesResult {
+  /**
+   * Every entity created by the duplication, children included, paired with
+   * the entity it was copied from.
+   */
+  duplicates: Array<{ sourceGuid: string; guid: string }>;
+}
+
 export interface AssetPayload {
   id: string | number;
   name: string;
@@ -110,26 +269,90 @@ export interface AssetsListPayload {
   assetType?: string;
 }
 
+export interface ScriptSummary {
+  name: string;
+  assetId: number | string;
+}
+
+export interface ScriptsListPayload {
+  scripts: ScriptSummary[];
+}
+
+export interface ScriptInstancePayload {
+  entityGuid: string;
+  scriptName: string;
+}
+
+export interface SetScriptOrderPayload {
+  entityGuid: string;
+  /**
+   * Every script on the entity, in execution order.
+   */
+  order: string[];
+}
+
+export interface HistoryEntry {
+  name: string;
+  /**
+   * False once the entry has been undone; it can then be redone.
+   */
+  done: boolean;
+}
+
+/**
+ * The editor's undo/redo state, oldest entry first.
+ */
+export interface HistoryStatePayload {
+  canUndo: boolean;
+  canRedo: boolean;
+  entries: HistoryEntry[];
+}
+
+export interface HistoryStepPayload {
+  direction: "undo" | "redo";
+  steps?: number;
+}
+
 export type RuntimeMessage =
   | { type: "GRAPH_REQUEST_DATA" }
   | { type: "GRAPH_RESPONSE_DATA"; payload: SceneGraphPayload }
   | { type: "GRAPH_ERROR"; error: string }
   | { type: "GRAPH_PUSH_DATA"; payload: GraphResponse }
   | { type: "GRAPH_UPDATE_ATTRIBUTE"; payload: UpdateAttributePayload }
+  | { type: "GRAPH_UPDATE_ATTRIBUTES"; payload: BulkUpdateAttributePayload }
+  | {
+      type: "GRAPH_UPDATE_ENTITY_PROPERTY";
+      payload: UpdateEntityPropertyPayload;
+    }
+  | {
+      type: "GRAPH_UPDATE_COMPONENT_PROPERTY";
+      payload: UpdateComponentPropertyPayload;
+    }
   | { type: "GRAPH_UPDATE_SELECTION"; payload: UpdateSelectionPayload }
   | { type: "GRAPH_SET_SELECTION"; payload: UpdateSelectionPayload }
   | { type: "GRAPH_FOCUS_ENTITY"; payload: FocusEntityPayload }
   | { type: "GRAPH_EDITOR_FOCUS"; payload: FocusEntityPayload }
-  | { type: "GRAPH_ENTITY_ADDED"; payload: EntityMutationPayload }
-  | { type: "GRAPH_ENTITY_UPDATED"; payload: EntityMutationPayload }
-  | { type: "GRAPH_ENTITY_REMOVED"; payload: EntityRemovalPayload }
+  | { type: "GRAPH_PATCH"; payload: ScenePatchPayload }
   | {
       type: "GRAPH_COLLAPSE_STATE_UPDATE";
       payload: CollapseStateUpdatePayload;
     }
   | {
       type: "GRAPH_SET_COLLAPSE_STATE";
-      payload: CollapseStateUpdatePayload;
+      payload: SetCollapseStatePayload;
     }
   | { type: "GRAPH_REPARENT_ENTITY"; payload: ReparentEntityPayload }
-  | { type: "GRAPH_REQUEST_ASSETS"; assetType?: string };
+  | { type: "GRAPH_ADD_ENTITY"; payload: AddEntityPayload }
+  | { type: "GRAPH_RENAME_ENTITY"; payload: RenameEntityPayload }
+  | { type: "GRAPH_DELETE_ENTITIES"; payload: DeleteEntitiesPayload }
+  | { type: "GRAPH_DUPLICATE_ENTITIES"; payload: DuplicateEntitiesPayload }
+  | { type: "GRAPH_ADD_SCRIPT"; payload: ScriptInstancePayload }
+  | { type: "GRAPH_REMOVE_SCRIPT"; payload: ScriptInstancePayload }
+  | { type: "GRAPH_SET_SCRIPT_ORDER"; payload: SetScriptOrderPayload }
+  | { type: "GRAPH_HISTORY_STEP"; payload: HistoryStepPayload }
+  | { type: "GRAPH_HISTORY_UPDATE"; payload: HistoryStatePayload }
+  | { type: "GRAPH_REQUEST_ASSETS"; assetType?: string }
+  | { type: "GRAPH_REQUEST_SCRIPTS" }
+  | { type: "GRAPH_REQUEST_EDITOR_INFO" }
+  | { type: "GRAPH_PING" }
+  | { type: "GRAPH_BRIDGE_READY"; payload: HeartbeatPayload };
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import {
+  buildReferenceFixUpdates,
+  findBrokenReferences,
+  findEntityByName,
+} from "../brokenReferences";
+
+const entities: Record<string, EntityPayload> = {
+  root: {
+    guid: "root",
+    name: "Root",
+    parentId: null,
+    children: ["camera", "player"],
+    components: {},
+  },
+  camera: {
+    guid: "camera",
+    name: "Camera",
+    parentId: "root",
+    children: [],
+    components: {
+      script: {
+        scripts: {
+          follow: {
+            enabled: true,
+            attributes: {
+              target: { type: "entity", value: "gone" },
+              extras: { type: "entity", value: ["player", "gone-too"] },
+            },
+          },
+        },
+      },
+    },
+  },
+  player: {
+    guid: "player",
+    name: "Player",
+    parentId: "root",
+    children: [],
+    components: {},
+  },
+};
+
+describe("findBrokenReferences", () => {
+  it("reports each slot pointing at a missing entity", () => {
+    expect(
+      findBrokenReferences(entities).map((reference) => [
+        reference.attributeName,
+        reference.path,
+        reference.targetGuid,
+      ])
+    ).toEqual([
+      ["target", [], "gone"],
+      ["extras", [1], "gone-too"],
+    ]);
+  });
+});
+
+describe("buildReferenceFixUpdates", () => {
+  it("repairs slots of one attribute in a single write", () => {
+    const [target, extra] = findBrokenReferences(entities);
+    expect(
+      buildReferenceFixUpdates(entities, [
+        { reference: target, targetGuid: null },
+        { reference: extra, targetGuid: "root" },
+      ])
+    ).toEqual([
+      {
+        entityGuid: "camera",
+        scriptName: "follow",
+        attributeName: "target",
+        value: null,
+      },
+      {
+        entityGuid: "camera",
+        scriptName: "follow",
+        attributeName: "extras",
+        value: ["player", "root"],
+      },
+    ]);
+  });
+
+  it("matches names case-insensitively and only when unique", () => {
+    expect(findEntityByName(entities, " player ")).toBe("player");
+    expect(findEntityByName(entities, "Nobody")).toBeNull();
+  });
+});
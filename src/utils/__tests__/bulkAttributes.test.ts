@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import { mergeScriptAttributes } from "../bulkAttributes";
+import { makeEntity, withScript } from "./fixtures";
+
+const spawner = (guid: string, attributes: Record<string, unknown>) =>
+  makeEntity(guid, null, [], withScript("spawner", attributes));
+
+describe("mergeScriptAttributes", () => {
+  it("flags differing values and skips entities without the script", () => {
+    const entities: Record<string, EntityPayload> = {
+      a: spawner("a", {
+        rate: { type: "number", value: 2 },
+        offset: { type: "vec3", value: [0, 1, 0] },
+        only: { type: "string", value: "a" },
+      }),
+      b: spawner("b", {
+        rate: { type: "number", value: 5 },
+        offset: { type: "vec3", value: [0, 1, 0] },
+      }),
+      c: makeEntity("c"),
+    };
+
+    const merged = mergeScriptAttributes(entities, ["a", "b", "c"], "spawner");
+
+    expect(merged.entityGuids).toEqual(["a", "b"]);
+    expect(Object.keys(merged.attributes).sort()).toEqual(["offset", "rate"]);
+    expect(merged.attributes.rate.value).toBe(2);
+    expect(Array.from(merged.mixed)).toEqual(["rate"]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { summarizeComponent } from "../componentSummary";
+
+describe("summarizeComponent", () => {
+  it("shows the key properties of known component types", () => {
+    const rows = summarizeComponent("sound", {
+      enabled: true,
+      volume: 0.5,
+      pitch: 1,
+      positional: true,
+      slots: { "1": {}, "2": {} },
+    });
+
+    expect(rows).toEqual([
+      { label: "volume", value: "0.50" },
+      { label: "pitch", value: "1" },
+      { label: "positional", value: "on" },
+      { label: "slots", value: "2 entries" },
+    ]);
+  });
+
+  it("falls back to primitive properties for unknown types", () => {
+    const rows = summarizeComponent("custom", {
+      enabled: true,
+      mode: "fast",
+      offset: [1, 2.5],
+      label: null,
+    });
+
+    expect(rows).toEqual([
+      { label: "mode", value: "fast" },
+      { label: "label", value: "—" },
+    ]);
+  });
+});
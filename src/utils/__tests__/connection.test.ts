@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { startHeartbeat } from "../connection";
+
+vi.mock("@/utils/runtime", () => ({
+  sendRuntimeMessage: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("startHeartbeat", () => {
+  it("resyncs on first contact and again when the editor session changes", async () => {
+    const ping = vi
+      .fn()
+      .mockResolvedValueOnce({ ready: true, sessionId: "a" })
+      .mockResolvedValueOnce({ ready: true, sessionId: "a" })
+      .mockResolvedValueOnce({ ready: true, sessionId: "b" });
+    const onResync = vi.fn();
+    const onStatusChange = vi.fn();
+
+    const stop = startHeartbeat({
+      ping,
+      intervalMs: 100,
+      onStatusChange,
+      onResync,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onResync).toHaveBeenCalledTimes(1);
+    expect(onStatusChange).toHaveBeenLastCalledWith("connected", null);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onResync).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onResync).toHaveBeenCalledTimes(2);
+    expect(onResync).toHaveBeenLastCalledWith("b");
+
+    stop();
+  });
+
+  it("reports a disconnect after consecutive misses and resyncs on recovery", async () => {
+    const ping = vi
+      .fn()
+      .mockResolvedValueOnce({ ready: true, sessionId: "a" })
+      .mockRejectedValueOnce(new Error("Receiving end does not exist"))
+      .mockRejectedValueOnce(new Error("Receiving end does not exist"))
+      .mockResolvedValueOnce({ ready: true, sessionId: "a" });
+    const onResync = vi.fn();
+    const onStatusChange = vi.fn();
+
+    const stop = startHeartbeat({
+      ping,
+      intervalMs: 100,
+      missesBeforeDisconnect: 2,
+      onStatusChange,
+      onResync,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onStatusChange).toHaveBeenLastCalledWith("connected", null);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onStatusChange).toHaveBeenLastCalledWith(
+      "disconnected",
+      "Receiving end does not exist"
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onStatusChange).toHaveBeenLastCalledWith("connected", null);
+    expect(onResync).toHaveBeenCalledTimes(2);
+
+    stop();
+  });
+
+  it("reports the editor as loading until the bridge is ready", async () => {
+    const ping = vi.fn().mockResolvedValue({
+      ready: false,
+      sessionId: "a",
+      reason: "Waiting for PlayCanvas assets to load",
+    });
+    const onResync = vi.fn();
+    const onStatusChange = vi.fn();
+
+    const stop = startHeartbeat({ ping, onStatusChange, onResync });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onStatusChange).toHaveBeenLastCalledWith(
+      "editor-loading",
+      "Waiting for PlayCanvas assets to load"
+    );
+    expect(onResync).not.toHaveBeenCalled();
+
+    stop();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import {
+  extractEntityGuids,
+  findInboundReferences,
+  findReferencesIntoSubtrees,
+  getEntitySlotHandleId,
+  getEntitySlots,
+  parseEntitySlotHandleId,
+} from "../entityReferences";
+import { makeEntity, withScript } from "./fixtures";
+
+describe("extractEntityGuids", () => {
+  it("reads entity arrays and json-schema entity fields", () => {
+    expect(
+      extractEntityGuids({
+        type: "entity",
+        value: ["a", null, "b"],
+      })
+    ).toEqual(["a", "b"]);
+    expect(
+      extractEntityGuids({
+        type: "json",
+        value: [{ target: "c", speed: 1 }, { target: null }],
+        definition: {
+          type: "json",
+          schema: [
+            { name: "target", type: "entity" },
+            { name: "speed", type: "number" },
+          ],
+        },
+      })
+    ).toEqual(["c"]);
+  });
+
+  it("matches the slots of entity arrays inside json fields", () => {
+    const attribute = {
+      type: "json",
+      value: { targets: ["a", null, "b"] },
+      definition: {
+        type: "json",
+        schema: [{ name: "targets", type: "entity", array: true }],
+      },
+    };
+
+    expect(getEntitySlots(attribute).map((slot) => slot.path)).toEqual([
+      ["targets", 0],
+      ["targets", 1],
+      ["targets", 2],
+    ]);
+    expect(extractEntityGuids(attribute)).toEqual(["a", "b"]);
+  });
+});
+
+describe("findReferencesIntoSubtrees", () => {
+  it("reports only references from outside the deleted subtree", () => {
+    const entities: Record<string, EntityPayload> = {
+      root: makeEntity("root", null, ["camera", "player"]),
+      camera: makeEntity(
+        "camera",
+        "root",
+        [],
+        withScript("follow", { target: { type: "entity", value: "hand" } })
+      ),
+      player: makeEntity(
+        "player",
+        "root",
+        ["hand"],
+        withScript("follow", { target: { type: "entity", value: "hand" } })
+      ),
+      hand: makeEntity("hand", "player", []),
+    };
+
+    expect(findReferencesIntoSubtrees(entities, ["player"])).toEqual([
+      {
+        sourceGuid: "camera",
+        scriptName: "follow",
+        attributeName: "target",
+        targetGuid: "hand",
+      },
+    ]);
+  });
+});
+
+describe("findInboundReferences", () => {
+  it("lists every attribute pointing at an entity", () => {
+    const entities: Record<string, EntityPayload> = {
+      root: makeEntity("root", null, ["camera", "hand"]),
+      camera: makeEntity(
+        "camera",
+        "root",
+        [],
+        withScript("follow", {
+          target: { type: "entity", value: "hand" },
+          extras: { type: "entity", value: ["root", "hand"] },
+        })
+      ),
+      hand: makeEntity("hand", "root", []),
+    };
+
+    expect(
+      findInboundReferences(entities, "hand").map(
+        (reference) => `${reference.sourceGuid}.${reference.attributeName}`
+      )
+    ).toEqual(["camera.target", "camera.extras"]);
+    expect(findInboundReferences(entities, "camera")).toEqual([]);
+  });
+});
+
+describe("entity slot handle ids", () => {
+  it("round-trips paths into arrays and json fields", () => {
+    expect(getEntitySlotHandleId("target", [])).toBe("target");
+    expect(getEntitySlotHandleId("waypoints", [2, "target"])).toBe(
+      "waypoints[2].target"
+    );
+    expect(parseEntitySlotHandleId("waypoints[2].target")).toEqual({
+      attributeName: "waypoints",
+      path: [2, "target"],
+    });
+    expect(parseEntitySlotHandleId("spawn.anchor")).toEqual({
+      attributeName: "spawn",
+      path: ["anchor"],
+    });
+  });
+});
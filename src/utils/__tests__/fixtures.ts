@@ -0,0 +1,21 @@
+import type { EntityPayload } from "@/types/messaging";
+
+/**
+ * An entity payload for tests, named after its guid.
+ */
+export const makeEntity = (
+  guid: string,
+  parentId: string | null = null,
+  children: string[] = [],
+  components: EntityPayload["components"] = {}
+): EntityPayload => ({ guid, name: guid, parentId, children, components });
+
+/**
+ * Components holding a single enabled script with the given attributes.
+ */
+export const withScript = (
+  scriptName: string,
+  attributes: Record<string, unknown>
+): EntityPayload["components"] => ({
+  script: { scripts: { [scriptName]: { enabled: true, attributes } } },
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  collectScriptDefinitions,
+  sceneExportToPayload,
+} from "../sceneExport";
+
+describe("sceneExportToPayload", () => {
+  it("converts entities and fills in script attribute definitions", () => {
+    const definitions = collectScriptDefinitions([
+      {
+        id: 1,
+        type: "script",
+        data: { scripts: { mover: { attributes: {} } } },
+      },
+      {
+        id: 2,
+        type: "script",
+        data: {
+          scripts: {
+            mover: {
+              attributes: {
+                speed: { type: "number", default: 1 },
+                target: { type: "entity" },
+              },
+            },
+          },
+        },
+      },
+      { id: 3, type: "texture" },
+    ]);
+
+    const payload = sceneExportToPayload(
+      {
+        name: "Main",
+        scene: 5,
+        project_id: 9,
+        entities: {
+          root: { name: "Root", parent: null, children: ["player"] },
+          player: {
+            resource_id: "player",
+            name: "Player",
+            parent: "root",
+            components: {
+              script: {
+                scripts: {
+                  mover: { enabled: true, attributes: { target: "root" } },
+                  legacy: { attributes: { label: "hi" } },
+                },
+              },
+            },
+          },
+        },
+      },
+      definitions
+    );
+
+    expect(payload.rootGuid).toBe("root");
+    expect(payload.sceneId).toBe(5);
+    const scripts = payload.entities.player.components.script.scripts;
+    expect(scripts.mover.attributes).toEqual({
+      speed: {
+        type: "number",
+        value: 1,
+        definition: { type: "number", default: 1 },
+      },
+      target: { type: "entity", value: "root", definition: { type: "entity" } },
+    });
+    expect(scripts.legacy.attributes.label).toEqual({
+      type: "string",
+      value: "hi",
+      definition: undefined,
+    });
+  });
+});
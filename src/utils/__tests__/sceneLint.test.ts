@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload, SceneGraphPayload } from "@/types/messaging";
+import { BUILT_IN_LINT_RULES } from "../lintRules";
+import { runSceneLint } from "../sceneLint";
+import { makeEntity } from "./fixtures";
+
+const scene = (entities: Record<string, EntityPayload>): SceneGraphPayload => ({
+  rootGuid: "root",
+  entities,
+  selectedEntityName: null,
+  projectId: 1,
+  sceneId: 2,
+});
+
+describe("runSceneLint", () => {
+  it("reports each built-in rule, errors first", () => {
+    const payload = scene({
+      root: makeEntity("root", null, ["player", "enemy", "twin"]),
+      player: makeEntity("player", "root", [], {
+        script: {
+          scripts: {
+            mover: {
+              attributes: {
+                speed: {
+                  type: "number",
+                  value: 12,
+                  definition: { type: "number", min: 0, max: 10 },
+                },
+                mode: {
+                  type: "string",
+                  value: "fly",
+                  definition: {
+                    type: "string",
+                    enum: { options: { Walk: "walk", Run: "run" } },
+                  },
+                },
+                target: {
+                  type: "entity",
+                  value: null,
+                  definition: { type: "entity" },
+                },
+                hidden: {
+                  type: "number",
+                  value: -5,
+                  definition: { type: "number", min: 0, visibleif: "false" },
+                },
+              },
+            },
+            legacy: {
+              attributes: { count: { type: "number", value: 3 } },
+            },
+          },
+        },
+      }),
+      enemy: { ...makeEntity("enemy", "root"), name: "twin" },
+      twin: makeEntity("twin", "root", [], { render: {} }),
+    });
+
+    expect(
+      runSceneLint(payload, BUILT_IN_LINT_RULES).map((issue) => [
+        issue.ruleId,
+        issue.entityGuid,
+        issue.attributeName ?? issue.scriptName ?? null,
+      ])
+    ).toEqual([
+      ["value-range", "player", "speed"],
+      ["enum-value", "player", "mode"],
+      ["null-reference", "player", "target"],
+      ["inferred-types", "player", "legacy"],
+      ["duplicate-sibling-names", "enemy", null],
+      ["duplicate-sibling-names", "twin", null],
+      ["empty-entity", "enemy", null],
+    ]);
+  });
+
+  it("skips rules the project turned off", () => {
+    const payload = scene({
+      root: makeEntity("root", null, ["empty"]),
+      empty: makeEntity("empty", "root"),
+    });
+
+    expect(runSceneLint(payload, BUILT_IN_LINT_RULES)).toHaveLength(1);
+    expect(
+      runSceneLint(payload, BUILT_IN_LINT_RULES, { "empty-entity": false })
+    ).toEqual([]);
+  });
+});
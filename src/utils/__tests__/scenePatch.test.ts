@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import { applyPatchOps } from "../scenePatch";
+import { makeEntity } from "./fixtures";
+
+const entities: Record<string, EntityPayload> = {
+  root: makeEntity("root", null, ["a", "b"]),
+  a: makeEntity("a", "root", ["a1"]),
+  a1: makeEntity("a1", "a"),
+  b: makeEntity("b", "root"),
+};
+
+describe("applyPatchOps", () => {
+  it("adds, moves and renames entities without mutating the input", () => {
+    const { entities: next } = applyPatchOps(entities, [
+      { op: "entity:add", entity: makeEntity("c", "root"), index: 1 },
+      { op: "entity:move", guid: "a1", parentId: "b", index: 0 },
+      { op: "entity:set", guid: "b", path: "name", value: "Renamed" },
+    ]);
+
+    expect(next.root.children).toEqual(["a", "c", "b"]);
+    expect(next.a.children).toEqual([]);
+    expect(next.b.children).toEqual(["a1"]);
+    expect(next.a1.parentId).toBe("b");
+    expect(next.b.name).toBe("Renamed");
+    expect(entities.root.children).toEqual(["a", "b"]);
+    expect(entities.a1.parentId).toBe("a");
+  });
+
+  it("removes a subtree and reports every removed guid", () => {
+    const { entities: next, removed } = applyPatchOps(entities, [
+      { op: "entity:remove", guid: "a" },
+    ]);
+
+    expect(removed.sort()).toEqual(["a", "a1"]);
+    expect(next.a).toBeUndefined();
+    expect(next.a1).toBeUndefined();
+    expect(next.root.children).toEqual(["b"]);
+  });
+
+  it("sets a single script attribute and skips unknown scripts", () => {
+    const withScript = {
+      ...entities,
+      b: {
+        ...entities.b,
+        components: {
+          script: {
+            scripts: {
+              mover: {
+                attributes: { speed: { type: "number", value: 1 } },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const { entities: next } = applyPatchOps(withScript, [
+      {
+        op: "attribute:set",
+        guid: "b",
+        scriptName: "mover",
+        attributeName: "speed",
+        attribute: { type: "number", value: 5 },
+      },
+      {
+        op: "attribute:set",
+        guid: "b",
+        scriptName: "missing",
+        attributeName: "speed",
+        attribute: { type: "number", value: 9 },
+      },
+    ]);
+
+    expect(
+      next.b.components.script.scripts.mover.attributes.speed.value
+    ).toBe(5);
+    expect(next.b.components.script.scripts.missing).toBeUndefined();
+  });
+});
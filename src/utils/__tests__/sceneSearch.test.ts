@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import { fuzzyScore, searchScene } from "../sceneSearch";
+
+const entities: Record<string, EntityPayload> = {
+  root: {
+    guid: "root",
+    name: "Root",
+    parentId: null,
+    children: ["world", "player"],
+    components: {},
+  },
+  world: {
+    guid: "world",
+    name: "World",
+    parentId: "root",
+    children: ["spawn"],
+    components: {},
+  },
+  spawn: {
+    guid: "spawn",
+    name: "Spawn Point",
+    parentId: "world",
+    children: [],
+    components: { render: {} },
+  },
+  player: {
+    guid: "player",
+    name: "Player",
+    parentId: "root",
+    children: [],
+    components: {
+      camera: {},
+      script: {
+        scripts: {
+          playerController: {
+            attributes: {
+              respawnAt: { type: "entity", value: "spawn" },
+              mode: { type: "string", value: "hover" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe("fuzzyScore", () => {
+  it("ranks substrings over scattered matches and rejects misses", () => {
+    const substring = fuzzyScore("play", "Player");
+    const scattered = fuzzyScore("pyr", "Player");
+    expect(substring).not.toBeNull();
+    expect(scattered).not.toBeNull();
+    expect(substring!).toBeGreaterThan(scattered!);
+    expect(fuzzyScore("xyz", "Player")).toBeNull();
+  });
+});
+
+describe("searchScene", () => {
+  it("matches names, paths, scripts, components and attribute values", () => {
+    expect(searchScene(entities, "spawn pt")[0]).toMatchObject({
+      guid: "spawn",
+      field: "name",
+      breadcrumbs: ["Root", "World", "Spawn Point"],
+    });
+    expect(searchScene(entities, "world/spawn")[0]).toMatchObject({
+      guid: "spawn",
+      field: "path",
+    });
+    expect(searchScene(entities, "plyrctrl")[0]).toMatchObject({
+      guid: "player",
+      field: "script",
+    });
+    expect(searchScene(entities, "camera")[0]).toMatchObject({
+      guid: "player",
+      field: "component",
+    });
+    expect(searchScene(entities, "hover")[0]).toMatchObject({
+      guid: "player",
+      field: "attribute",
+      matchedText: "playerController.mode = hover",
+    });
+  });
+
+  it("searches entity references by their target's name", () => {
+    const results = searchScene(entities, "spawn point");
+    expect(results.map((result) => result.guid)).toEqual(["spawn", "player"]);
+    expect(results[1].matchedText).toBe(
+      "playerController.respawnAt = Spawn Point"
+    );
+  });
+
+  it("returns nothing for a blank query", () => {
+    expect(searchScene(entities, "  ")).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import type { EntityPayload } from "@/types/messaging";
+import {
+  buildScriptTable,
+  diffCsvWithTable,
+  parseCsv,
+  toCsv,
+} from "../scriptTable";
+import { makeEntity, withScript } from "./fixtures";
+
+const enemy = (
+  guid: string,
+  name: string,
+  attributes: Record<string, unknown>
+): EntityPayload => ({
+  ...makeEntity(guid, null, [], withScript("enemy", attributes)),
+  name,
+});
+
+const entities: Record<string, EntityPayload> = {
+  b: enemy("b", "Brute", {
+    health: { type: "number", value: 200 },
+    label: { type: "string", value: 'Big, "bad"' },
+  }),
+  a: enemy("a", "Archer", {
+    health: { type: "number", value: 50 },
+    label: { type: "string", value: "Archer" },
+  }),
+  c: enemy("c", "Cleric", {
+    health: { type: "number", value: 80 },
+    label: { type: "string", value: null },
+  }),
+};
+
+describe("scriptTable", () => {
+  it("round-trips the table through CSV without changes", () => {
+    const table = buildScriptTable(entities, "enemy");
+    const csv = toCsv(table);
+
+    expect(csv.split("\n")[0]).toBe("guid,entity,health,label");
+    expect(parseCsv(csv)[2]).toEqual(["b", "Brute", "200", 'Big, "bad"']);
+    expect(parseCsv(csv)[3]).toEqual(["c", "Cleric", "80", ""]);
+    expect(diffCsvWithTable(csv, table)).toEqual({ updates: [], errors: [] });
+  });
+
+  it("keeps reserved columns apart from same-named attributes", () => {
+    const table = buildScriptTable(
+      {
+        a: enemy("a", "Archer", {
+          entity: { type: "entity", value: "target-guid" },
+          guid: { type: "string", value: "" },
+        }),
+      },
+      "enemy"
+    );
+    const csv = toCsv(table);
+
+    expect(csv.split("\n")[0]).toBe("guid,entity,entity,guid");
+    expect(diffCsvWithTable(csv, table)).toEqual({ updates: [], errors: [] });
+  });
+
+  it("turns edited cells into typed updates and reports bad rows", () => {
+    const table = buildScriptTable(entities, "enemy");
+    const csv = [
+      "entity,guid,health",
+      "Archer,a,75",
+      "Brute,b,lots",
+      "Ghost,zzz,10",
+    ].join("\r\n");
+
+    const { updates, errors } = diffCsvWithTable(csv, table);
+
+    expect(updates).toEqual([
+      { entityGuid: "a", attributeName: "health", value: 75 },
+    ]);
+    expect(errors).toEqual([
+      'Row 3, health: "lots" is not a number',
+      'Row 4: no entity with this script has guid "zzz"',
+    ]);
+  });
+});
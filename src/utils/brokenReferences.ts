@@ -0,0 +1,134 @@
+import type { EntityPayload, ScriptAttributePayload } from "@/types/messaging";
+import {
+  getEntitySlotHandleId,
+  getEntitySlots,
+  type EntityReference,
+  type EntitySlotPath,
+} from "@/utils/entityReferences";
+import { setAtPath } from "@/utils/scenePatch";
+
+/**
+ * An entity slot holding the guid of an entity that is not in the scene.
+ */
+export interface BrokenReference extends EntityReference {
+  path: EntitySlotPath;
+}
+
+export interface ReferenceFix {
+  reference: BrokenReference;
+  /**
+   * New target of the slot; null clears it.
+   */
+  targetGuid: string | null;
+}
+
+export interface ReferenceFixUpdate {
+  entityGuid: string;
+  scriptName: string;
+  attributeName: string;
+  value: unknown;
+}
+
+const NO_BROKEN_REFERENCES: BrokenReference[] = [];
+
+const brokenReferencesCache = new WeakMap<
+  Record<string, EntityPayload>,
+  BrokenReference[]
+>();
+
+/**
+ * Identifies a broken reference across scene snapshots, e.g. to keep it
+ * checked in the report while other attributes change.
+ */
+export const getBrokenReferenceKey = (reference: BrokenReference) =>
+  `${reference.sourceGuid}/${reference.scriptName}/${getEntitySlotHandleId(
+    reference.attributeName,
+    reference.path
+  )}`;
+
+/**
+ * Lists every entity slot in the scene that points at a missing entity.
+ * Computed once per `entities` snapshot.
+ */
+export function findBrokenReferences(
+  entities: Record<string, EntityPayload>
+): BrokenReference[] {
+  const cached = brokenReferencesCache.get(entities);
+  if (cached) {
+    return cached;
+  }
+
+  const references: BrokenReference[] = [];
+  Object.values(entities).forEach((entity) => {
+    const scripts = entity.components?.script?.scripts || {};
+    Object.entries(scripts).forEach(([scriptName, script]) => {
+      const attributes = (script as {
+        attributes?: Record<string, ScriptAttributePayload>;
+      }).attributes;
+      Object.entries(attributes || {}).forEach(([attributeName, attribute]) => {
+        if (!attribute) return;
+        getEntitySlots(attribute).forEach(({ path, targetGuid }) => {
+          if (targetGuid && !entities[targetGuid]) {
+            references.push({
+              sourceGuid: entity.guid,
+              scriptName,
+              attributeName,
+              targetGuid,
+              path,
+            });
+          }
+        });
+      });
+    });
+  });
+
+  const result = references.length ? references : NO_BROKEN_REFERENCES;
+  brokenReferencesCache.set(entities, result);
+  return result;
+}
+
+/**
+ * The only entity called `name`, ignoring case; null when there is none or
+ * the name is ambiguous.
+ */
+export function findEntityByName(
+  entities: Record<string, EntityPayload>,
+  name: string
+): string | null {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const matches = Object.values(entities).filter(
+    (entity) => entity.name.trim().toLowerCase() === normalized
+  );
+  return matches.length === 1 ? matches[0].guid : null;
+}
+
+/**
+ * Turns fixes into attribute writes, one per attribute, so several slots of
+ * the same array or json attribute are repaired together.
+ */
+export function buildReferenceFixUpdates(
+  entities: Record<string, EntityPayload>,
+  fixes: ReferenceFix[]
+): ReferenceFixUpdate[] {
+  const updates = new Map<string, ReferenceFixUpdate>();
+  fixes.forEach(({ reference, targetGuid }) => {
+    const { sourceGuid, scriptName, attributeName, path } = reference;
+    const key = `${sourceGuid}/${scriptName}/${attributeName}`;
+    const current =
+      updates.get(key)?.value ??
+      entities[sourceGuid]?.components?.script?.scripts?.[scriptName]
+        ?.attributes?.[attributeName]?.value;
+    updates.set(key, {
+      entityGuid: sourceGuid,
+      scriptName,
+      attributeName,
+      value: path.length
+        ? setAtPath(current, path.map(String), targetGuid)
+        : targetGuid,
+    });
+  });
+  return Array.from(updates.values());
+}
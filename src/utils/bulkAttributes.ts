@@ -0,0 +1,70 @@
+import type { EntityPayload, ScriptAttributePayload } from "@/types/messaging";
+
+export interface MergedScriptAttributes {
+  /**
+   * Entities of the selection that carry the script, in selection order.
+   */
+  entityGuids: string[];
+  /**
+   * Attributes present on every instance. Mixed attributes keep the value of
+   * the first instance so their editor still has something to show.
+   */
+  attributes: Record<string, ScriptAttributePayload>;
+  mixed: Set<string>;
+}
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Combines the attributes of one script across several entities, flagging
+ * the attributes whose values differ between instances.
+ */
+export function mergeScriptAttributes(
+  entities: Record<string, EntityPayload>,
+  entityGuids: string[],
+  scriptName: string
+): MergedScriptAttributes {
+  const instances = entityGuids
+    .map((guid) => ({
+      guid,
+      attributes: (
+        entities[guid]?.components?.script?.scripts?.[scriptName] as
+          | { attributes?: Record<string, ScriptAttributePayload> }
+          | undefined
+      )?.attributes,
+    }))
+    .filter(
+      (
+        instance
+      ): instance is {
+        guid: string;
+        attributes: Record<string, ScriptAttributePayload>;
+      } => Boolean(instance.attributes)
+    );
+
+  const attributes: Record<string, ScriptAttributePayload> = {};
+  const mixed = new Set<string>();
+  const [first, ...rest] = instances;
+
+  Object.entries(first?.attributes || {}).forEach(([name, attribute]) => {
+    if (!attribute || rest.some((instance) => !instance.attributes[name])) {
+      return;
+    }
+    attributes[name] = attribute;
+    if (
+      rest.some(
+        (instance) =>
+          !isSameValue(instance.attributes[name].value, attribute.value)
+      )
+    ) {
+      mixed.add(name);
+    }
+  });
+
+  return {
+    entityGuids: instances.map((instance) => instance.guid),
+    attributes,
+    mixed,
+  };
+}
@@ -0,0 +1,88 @@
+import type { ComponentPayload } from "@/types/messaging";
+
+export interface ComponentSummaryRow {
+  label: string;
+  value: string;
+}
+
+export const MAX_COMPONENT_SUMMARY_ROWS = 4;
+
+/**
+ * The properties worth showing at a glance for each built-in component type.
+ * Components not listed here fall back to their first primitive properties.
+ */
+const COMPONENT_SUMMARY_KEYS: Record<string, string[]> = {
+  anim: ["activate", "speed", "rootBone"],
+  animation: ["assets", "speed", "loop", "activate"],
+  audiolistener: [],
+  button: ["active", "transitionMode", "imageEntity"],
+  camera: ["projection", "fov", "priority", "clearColor"],
+  collision: ["type", "halfExtents", "radius", "height"],
+  element: ["type", "width", "height", "text"],
+  gsplat: ["asset"],
+  layoutchild: ["minWidth", "minHeight", "excludeFromLayout"],
+  layoutgroup: ["orientation", "spacing", "padding", "alignment"],
+  light: ["type", "color", "intensity", "castShadows"],
+  model: ["type", "asset", "castShadows"],
+  particlesystem: ["numParticles", "lifetime", "rate", "loop"],
+  render: ["type", "asset", "materialAssets", "castShadows"],
+  rigidbody: ["type", "mass", "friction", "restitution"],
+  screen: ["screenSpace", "referenceResolution", "scaleMode", "priority"],
+  scrollbar: ["orientation", "value", "handleEntity"],
+  scrollview: ["horizontal", "vertical", "scrollMode", "contentEntity"],
+  sound: ["volume", "pitch", "positional", "slots"],
+  sprite: ["type", "spriteAsset", "clips", "autoPlayClip"],
+  zone: ["size"],
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const formatSummaryValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  if (typeof value === "boolean") {
+    return value ? "on" : "off";
+  }
+  if (typeof value === "number") {
+    return formatNumber(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every((item) => typeof item === "number")) {
+      return value.map(formatNumber).join(", ");
+    }
+    return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  }
+  if (typeof value === "object") {
+    const count = Object.keys(value as object).length;
+    return `${count} entr${count === 1 ? "y" : "ies"}`;
+  }
+  return String(value);
+};
+
+const isPrimitive = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+/**
+ * Builds the read-only rows shown on a component node.
+ */
+export function summarizeComponent(
+  type: string,
+  component: ComponentPayload | undefined
+): ComponentSummaryRow[] {
+  if (!component) {
+    return [];
+  }
+
+  const keys =
+    COMPONENT_SUMMARY_KEYS[type] ??
+    Object.keys(component).filter(
+      (key) => key !== "enabled" && isPrimitive(component[key])
+    );
+
+  return keys
+    .filter((key) => Object.prototype.hasOwnProperty.call(component, key))
+    .slice(0, MAX_COMPONENT_SUMMARY_ROWS)
+    .map((key) => ({ label: key, value: formatSummaryValue(component[key]) }));
+}
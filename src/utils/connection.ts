@@ -0,0 +1,112 @@
+import type { HeartbeatPayload, MutationResponse } from "@/types/messaging";
+import { sendRuntimeMessage } from "@/utils/runtime";
+
+export type ConnectionStatus =
+  | "connecting"
+  | "connected"
+  | "editor-loading"
+  | "disconnected";
+
+export interface HeartbeatOptions {
+  ping: () => Promise<HeartbeatPayload>;
+  intervalMs?: number;
+  /**
+   * Consecutive failed pings tolerated before reporting "disconnected".
+   */
+  missesBeforeDisconnect?: number;
+  onStatusChange: (status: ConnectionStatus, detail: string | null) => void;
+  /**
+   * Called whenever the bridge becomes usable again: on the first successful
+   * ping, after an outage, and when the editor tab was reloaded (new session).
+   */
+  onResync: (sessionId: string) => void;
+}
+
+const DEFAULT_INTERVAL_MS = 3000;
+const DEFAULT_MISSES_BEFORE_DISCONNECT = 2;
+
+/**
+ * Starts polling the editor bridge and returns a function that stops it.
+ */
+export function startHeartbeat({
+  ping,
+  intervalMs = DEFAULT_INTERVAL_MS,
+  missesBeforeDisconnect = DEFAULT_MISSES_BEFORE_DISCONNECT,
+  onStatusChange,
+  onResync,
+}: HeartbeatOptions): () => void {
+  let status: ConnectionStatus = "connecting";
+  let sessionId: string | null = null;
+  let misses = 0;
+  let stopped = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let statusDetail: string | null = null;
+
+  const setStatus = (next: ConnectionStatus, detail: string | null = null) => {
+    if (next === status && detail === statusDetail) {
+      return;
+    }
+    status = next;
+    statusDetail = detail;
+    onStatusChange(next, detail);
+  };
+
+  const tick = async () => {
+    try {
+      const result = await ping();
+      if (stopped) return;
+      misses = 0;
+
+      if (!result.ready) {
+        setStatus("editor-loading", result.reason ?? null);
+        return;
+      }
+
+      const wasConnected = status === "connected";
+      const sessionChanged = sessionId !== result.sessionId;
+      sessionId = result.sessionId;
+      setStatus("connected");
+
+      if (!wasConnected || sessionChanged) {
+        onResync(result.sessionId);
+      }
+    } catch (error) {
+      if (stopped) return;
+      misses += 1;
+      if (misses >= missesBeforeDisconnect || status === "connecting") {
+        setStatus(
+          "disconnected",
+          error instanceof Error ? error.message : "Lost connection to editor"
+        );
+      }
+    } finally {
+      if (!stopped) {
+        timeoutId = setTimeout(tick, intervalMs);
+      }
+    }
+  };
+
+  onStatusChange(status, null);
+  tick();
+
+  return () => {
+    stopped = true;
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  };
+}
+
+/**
+ * Sends a heartbeat through the content script to the editor bridge of the
+ * paired editor tab.
+ */
+export async function pingEditorBridge(): Promise<HeartbeatPayload> {
+  const response = await sendRuntimeMessage<
+    MutationResponse<HeartbeatPayload> | undefined
+  >({ type: "GRAPH_PING" });
+  if (!response?.success || !response.data) {
+    throw new Error(response?.error ?? "Editor bridge did not answer");
+  }
+  return response.data;
+}
@@ -0,0 +1,215 @@
+import type { EntityPayload, ScriptAttributePayload } from "@/types/messaging";
+
+export interface EntityReference {
+  sourceGuid: string;
+  scriptName: string;
+  attributeName: string;
+  targetGuid: string;
+}
+
+/**
+ * Location of one entity inside an attribute value: array indices and
+ * json-schema field names, outermost first. Empty for a plain entity
+ * attribute.
+ */
+export type EntitySlotPath = Array<string | number>;
+
+export interface EntitySlot {
+  path: EntitySlotPath;
+  targetGuid: string | null;
+}
+
+/**
+ * Every place in an attribute that holds a single entity, including empty
+ * ones so they can still be wired: each element of an entity array, and
+ * each entity field of a json-schema attribute (per item for json arrays,
+ * per element for entity array fields).
+ */
+export function getEntitySlots(
+  attribute: ScriptAttributePayload
+): EntitySlot[] {
+  const definition = attribute.definition;
+  const type = attribute.type || definition?.type;
+  const value = attribute.value;
+  const toGuid = (candidate: unknown) =>
+    typeof candidate === "string" && candidate ? candidate : null;
+
+  if (type === "entity") {
+    return Array.isArray(value)
+      ? value.map((item, index) => ({
+          path: [index],
+          targetGuid: toGuid(item),
+        }))
+      : [{ path: [], targetGuid: toGuid(value) }];
+  }
+  if (type !== "json" || !Array.isArray(definition?.schema)) {
+    return [];
+  }
+
+  const entityFields = definition!.schema.filter(
+    (field) => field.type === "entity"
+  );
+  const items = Array.isArray(value)
+    ? value.map((item, index) => ({ item, prefix: [index] }))
+    : [{ item: value, prefix: [] }];
+  return items.flatMap(({ item, prefix }) =>
+    entityFields.flatMap((field) => {
+      const fieldValue =
+        item && typeof item === "object" ? item[field.name] : null;
+      // Entity array fields get one slot per element
+      if (field.array) {
+        return Array.isArray(fieldValue)
+          ? fieldValue.map((element, index) => ({
+              path: [...prefix, field.name, index],
+              targetGuid: toGuid(element),
+            }))
+          : [];
+      }
+      return [
+        { path: [...prefix, field.name], targetGuid: toGuid(fieldValue) },
+      ];
+    })
+  );
+}
+
+/**
+ * Returns every entity guid stored in a script attribute, i.e. the targets
+ * of its non-empty entity slots.
+ */
+export function extractEntityGuids(
+  attribute: ScriptAttributePayload
+): string[] {
+  return getEntitySlots(attribute)
+    .map((slot) => slot.targetGuid)
+    .filter((guid): guid is string => guid !== null);
+}
+
+/**
+ * Handle id of an entity slot on its script node: the attribute name for a
+ * plain entity attribute, e.g. `targets[2]` or `waypoints[0].target` for
+ * slots inside arrays and json objects.
+ */
+export const getEntitySlotHandleId = (
+  attributeName: string,
+  path: EntitySlotPath
+) =>
+  path.reduce<string>(
+    (handleId, segment) =>
+      typeof segment === "number"
+        ? `${handleId}[${segment}]`
+        : `${handleId}.${segment}`,
+    attributeName
+  );
+
+/**
+ * Reverses `getEntitySlotHandleId`.
+ */
+export function parseEntitySlotHandleId(handleId: string): {
+  attributeName: string;
+  path: EntitySlotPath;
+} {
+  const match = /^([^.[]+)(.*)$/.exec(handleId);
+  if (!match) {
+    return { attributeName: handleId, path: [] };
+  }
+  const path: EntitySlotPath = [];
+  const segmentPattern = /\[(\d+)\]|\.([^.[]+)/g;
+  let segment: RegExpExecArray | null;
+  while ((segment = segmentPattern.exec(match[2]))) {
+    path.push(segment[1] !== undefined ? Number(segment[1]) : segment[2]);
+  }
+  return { attributeName: match[1], path };
+}
+
+/**
+ * Lists every entity reference held by script attributes in the scene.
+ */
+export function collectEntityReferences(
+  entities: Record<string, EntityPayload>
+): EntityReference[] {
+  const references: EntityReference[] = [];
+  Object.values(entities).forEach((entity) => {
+    const scripts = entity.components?.script?.scripts || {};
+    Object.entries(scripts).forEach(([scriptName, script]) => {
+      const attributes = (script as {
+        attributes?: Record<string, ScriptAttributePayload>;
+      }).attributes;
+      Object.entries(attributes || {}).forEach(([attributeName, attribute]) => {
+        if (!attribute) return;
+        extractEntityGuids(attribute).forEach((targetGuid) => {
+          references.push({
+            sourceGuid: entity.guid,
+            scriptName,
+            attributeName,
+            targetGuid,
+          });
+        });
+      });
+    });
+  });
+  return references;
+}
+
+const NO_REFERENCES: EntityReference[] = [];
+
+const inboundIndexCache = new WeakMap<
+  Record<string, EntityPayload>,
+  Map<string, EntityReference[]>
+>();
+
+/**
+ * References pointing at `guid` from script attributes anywhere in the
+ * scene. The index behind it is built once per `entities` snapshot, so every
+ * entity node can ask for its own list cheaply.
+ */
+export function findInboundReferences(
+  entities: Record<string, EntityPayload>,
+  guid: string
+): EntityReference[] {
+  let index = inboundIndexCache.get(entities);
+  if (!index) {
+    index = new Map();
+    collectEntityReferences(entities).forEach((reference) => {
+      const list = index!.get(reference.targetGuid) ?? [];
+      list.push(reference);
+      index!.set(reference.targetGuid, list);
+    });
+    inboundIndexCache.set(entities, index);
+  }
+  return index.get(guid) ?? NO_REFERENCES;
+}
+
+/**
+ * Returns the guid of an entity and all of its descendants.
+ */
+export function collectSubtree(
+  entities: Record<string, EntityPayload>,
+  guid: string
+): Set<string> {
+  const subtree = new Set<string>();
+  const stack = [guid];
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (subtree.has(current) || !entities[current]) continue;
+    subtree.add(current);
+    stack.push(...entities[current].children);
+  }
+  return subtree;
+}
+
+/**
+ * References that point into the subtrees of `guids` from outside of them,
+ * i.e. the attributes that would dangle if the subtrees were deleted.
+ */
+export function findReferencesIntoSubtrees(
+  entities: Record<string, EntityPayload>,
+  guids: string[]
+): EntityReference[] {
+  const subtree = new Set(
+    guids.flatMap((guid) => [...collectSubtree(entities, guid)])
+  );
+  return collectEntityReferences(entities).filter(
+    (reference) =>
+      subtree.has(reference.targetGuid) && !subtree.has(reference.sourceGuid)
+  );
+}
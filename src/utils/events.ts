@@ -25,3 +25,19 @@ export const withStopPropagation = <T extends SyntheticEvent>(
     handler?.(event);
   };
 };
+
+/**
+ * True when a keyboard event originates from a text field, so global
+ * shortcuts (Delete, Ctrl+D, ...) don't hijack typing.
+ */
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+};
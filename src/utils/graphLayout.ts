@@ -1,10 +1,16 @@
 import type { Edge, Node, XYPosition } from "reactflow";
 
 import type {
+  ComponentPayload,
   EntityPayload,
   SceneGraphPayload,
   ScriptAttributePayload,
 } from "@/types/messaging";
+import { summarizeComponent } from "@/utils/componentSummary";
+import {
+  getEntitySlotHandleId,
+  getEntitySlots,
+} from "@/utils/entityReferences";
 
 export interface PositionOverride {
   x: number;
@@ -16,6 +22,10 @@ export interface BuildLayoutOptions {
   payload: SceneGraphPayload;
   manualPositions: Record<string, PositionOverride>;
   collapsedState: Record<string, boolean>;
+  /**
+   * Entities whose properties section (enabled, tags, transform) is open.
+   */
+  entityPanelState?: Record<string, boolean>;
   projectId?: number | string | null;
   sceneId?: number | string | null;
 }
@@ -25,17 +35,96 @@ interface EntityLayoutInfo {
   height: number;
   childOrder: string[];
   childSizes: Record<string, { width: number; height: number }>;
-  scriptCount: number;
+  sectionNodeCount: number;
 }
 
 const ENTITY_MIN_WIDTH = 340;
 const ENTITY_HEADER_HEIGHT = 76;
+export const ENTITY_PROPERTIES_PANEL_HEIGHT = 340;
 const ENTITY_PADDING = 24;
 const SECTION_GAP = 24;
 const CHILD_VERTICAL_GAP = 24;
 const SCRIPT_VERTICAL_GAP = 12;
 const SCRIPT_NODE_WIDTH = 320;
 const SCRIPT_NODE_HEIGHT = 84;
+const COMPONENT_NODE_BASE_HEIGHT = 60;
+const COMPONENT_SUMMARY_ROW_HEIGHT = 18;
+
+/**
+ * Non-script components rendered as their own nodes, in the entity's
+ * component order. Scripts are laid out separately as script nodes.
+ */
+const getComponentEntries = (entity: EntityPayload) =>
+  Object.entries(entity.components || {}).filter(
+    ([type]) => type !== "script"
+  ) as Array<[string, ComponentPayload]>;
+
+const getComponentNodeHeight = (type: string, component: ComponentPayload) =>
+  COMPONENT_NODE_BASE_HEIGHT +
+  summarizeComponent(type, component).length * COMPONENT_SUMMARY_ROW_HEIGHT;
+
+/**
+ * Scripts in execution order (`components.script.order`). Scripts missing
+ * from the order list run last, in the order they were added.
+ */
+export const getOrderedScriptEntries = (entity: EntityPayload) => {
+  const scripts = entity.components?.script?.scripts as
+    | Record<string, ComponentPayload>
+    | undefined;
+  if (!scripts) {
+    return [];
+  }
+  const order: string[] = Array.isArray(entity.components.script.order)
+    ? entity.components.script.order
+    : [];
+  const ordered = order.filter((name) =>
+    Object.prototype.hasOwnProperty.call(scripts, name)
+  );
+  Object.keys(scripts).forEach((name) => {
+    if (!ordered.includes(name)) {
+      ordered.push(name);
+    }
+  });
+  return ordered.map(
+    (name) => [name, scripts[name]] as [string, ComponentPayload]
+  );
+};
+
+export const getComponentNodeId = (entityGuid: string, type: string) =>
+  `${entityGuid}-component:${type}`;
+
+export const ASSET_NODE_PREFIX = "asset:";
+
+export const getAssetNodeId = (assetId: string | number) =>
+  `${ASSET_NODE_PREFIX}${assetId}`;
+
+const ASSET_NODE_WIDTH = 240;
+const ASSET_NODE_HEIGHT = 64;
+const ASSET_VERTICAL_GAP = 16;
+const ASSET_EDGE_COLOR = "#38bdf8";
+
+/**
+ * Asset ids held by an asset attribute, one per array element for asset
+ * arrays. Empty slots are skipped but keep their index.
+ */
+export const getAttributeAssetRefs = (
+  attribute: ScriptAttributePayload | undefined
+): Array<{ assetId: string; index: number | null }> => {
+  const type = attribute?.type || attribute?.definition?.type;
+  if (!attribute || type !== "asset") {
+    return [];
+  }
+  const value = attribute.value;
+  if (Array.isArray(value)) {
+    return value
+      .map((assetId, index) => ({ assetId, index }))
+      .filter(({ assetId }) => assetId !== null && assetId !== undefined)
+      .map(({ assetId, index }) => ({ assetId: String(assetId), index }));
+  }
+  return value === null || value === undefined || value === ""
+    ? []
+    : [{ assetId: String(value), index: null }];
+};
 
 const ROOT_GRID_GAP = 48;
 
@@ -43,8 +132,29 @@ export function buildGraphLayout({
   payload,
   manualPositions,
   collapsedState,
+  entityPanelState = {},
 }: BuildLayoutOptions): { nodes: Node[]; edges: Edge[] } {
   const entities = payload.entities;
+
+  const getHeaderHeight = (guid: string) =>
+    ENTITY_HEADER_HEIGHT +
+    (entityPanelState[guid] ? ENTITY_PROPERTIES_PANEL_HEIGHT : 0);
+
+  // Disabling an entity disables its whole subtree, as in the editor
+  const disabledCache = new Map<string, boolean>();
+  const isDisabledInHierarchy = (guid: string | null): boolean => {
+    if (!guid || !entities[guid]) {
+      return false;
+    }
+    if (!disabledCache.has(guid)) {
+      const entity = entities[guid];
+      disabledCache.set(
+        guid,
+        entity.enabled === false || isDisabledInHierarchy(entity.parentId)
+      );
+    }
+    return disabledCache.get(guid)!;
+  };
   const nodes: Node[] = [];
   const edges: Edge[] = [];
 
@@ -63,20 +173,25 @@ export function buildGraphLayout({
         height: ENTITY_HEADER_HEIGHT + ENTITY_PADDING * 2,
         childOrder: [],
         childSizes: {},
-        scriptCount: 0,
+        sectionNodeCount: 0,
       };
       layoutInfoCache.set(guid, fallback);
       return fallback;
     }
 
-    const scriptComponent = entity.components?.script;
-    const scriptEntries = scriptComponent?.scripts
-      ? Object.entries(scriptComponent.scripts)
-      : [];
+    const scriptEntries = getOrderedScriptEntries(entity);
 
-    const scriptSectionHeight = scriptEntries.length
-      ? scriptEntries.length * SCRIPT_NODE_HEIGHT +
-        (scriptEntries.length - 1) * SCRIPT_VERTICAL_GAP
+    const componentHeights = getComponentEntries(entity).map(
+      ([type, component]) => getComponentNodeHeight(type, component)
+    );
+    const sectionNodeHeights = [
+      ...scriptEntries.map(() => SCRIPT_NODE_HEIGHT),
+      ...componentHeights,
+    ];
+
+    const scriptSectionHeight = sectionNodeHeights.length
+      ? sectionNodeHeights.reduce((sum, height) => sum + height, 0) +
+        (sectionNodeHeights.length - 1) * SCRIPT_VERTICAL_GAP
       : 0;
 
     const childOrder: string[] = [];
@@ -117,7 +232,7 @@ export function buildGraphLayout({
         childSectionHeight;
 
     const height =
-      ENTITY_HEADER_HEIGHT +
+      getHeaderHeight(guid) +
       ENTITY_PADDING * 2 +
       dynamicHeight +
       (dynamicHeight > 0 ? SECTION_GAP : 0);
@@ -127,7 +242,7 @@ export function buildGraphLayout({
       height,
       childOrder,
       childSizes,
-      scriptCount: scriptEntries.length,
+      sectionNodeCount: sectionNodeHeights.length,
     };
     layoutInfoCache.set(guid, layoutInfo);
     return layoutInfo;
@@ -160,6 +275,8 @@ export function buildGraphLayout({
   };
 
   const scriptEdgesMap: Edge[] = [];
+  // Referenced assets in first-seen order; each becomes one shared node
+  const assetIds: string[] = [];
 
   interface SubtreeResult {
     width: number;
@@ -193,6 +310,8 @@ export function buildGraphLayout({
         label: entity.name,
         childrenCount: entity.children.length,
         collapsed,
+        disabled: isDisabledInHierarchy(guid),
+        propertiesOpen: !!entityPanelState[guid],
       },
       position,
       parentNode: parentId ?? undefined,
@@ -213,7 +332,7 @@ export function buildGraphLayout({
       };
     }
 
-    let contentY = ENTITY_HEADER_HEIGHT + SECTION_GAP;
+    let contentY = getHeaderHeight(guid) + SECTION_GAP;
     const bounds = {
       minX: Number.POSITIVE_INFINITY,
       minY: Number.POSITIVE_INFINITY,
@@ -231,12 +350,10 @@ export function buildGraphLayout({
       bounds.maxY = Math.max(bounds.maxY, nodePosition.y + size.height);
     };
 
-    const scriptComponent = entity.components?.script;
-    const scriptEntries = scriptComponent?.scripts
-      ? Object.entries(scriptComponent.scripts)
-      : [];
+    const scriptEntries = getOrderedScriptEntries(entity);
+    const scriptComponentEnabled = entity.components?.script?.enabled !== false;
 
-    scriptEntries.forEach(([scriptName, scriptDataRaw], index) => {
+    scriptEntries.forEach(([scriptName, scriptDataRaw]) => {
       const scriptNodeId = `${guid}-${scriptName}`;
       const defaultScriptPosition: XYPosition = {
         x: ENTITY_PADDING,
@@ -249,8 +366,12 @@ export function buildGraphLayout({
       );
 
       const scriptData = scriptDataRaw as {
+        enabled?: boolean;
         attributes?: Record<string, ScriptAttributePayload>;
       };
+      // A disabled script component switches off every script on it
+      const scriptEnabled =
+        scriptComponentEnabled && scriptData.enabled !== false;
 
       nodes.push({
         id: scriptNodeId,
@@ -267,6 +388,8 @@ export function buildGraphLayout({
           scriptName,
           entityGuid: guid,
           attributes: scriptData.attributes || {},
+          enabled: scriptData.enabled !== false,
+          componentEnabled: scriptComponentEnabled,
         },
       });
 
@@ -279,37 +402,114 @@ export function buildGraphLayout({
         Object.entries(scriptData.attributes).forEach(
           ([attributeName, attrDataRaw]) => {
             const attr = attrDataRaw as ScriptAttributePayload;
-            if (attr?.type === "entity" && attr.value) {
-              const targetGuid = String(attr.value);
-              if (!entities[targetGuid]) {
-                return;
+            getAttributeAssetRefs(attr).forEach(({ assetId, index }) => {
+              if (!assetIds.includes(assetId)) {
+                assetIds.push(assetId);
               }
               scriptEdgesMap.push({
-                id: `${scriptNodeId}-${attributeName}-${targetGuid}`,
+                id: `${scriptNodeId}-${attributeName}-${getAssetNodeId(
+                  assetId
+                )}${index === null ? "" : `-${index}`}`,
                 source: scriptNodeId,
                 sourceHandle: attributeName,
-                target: targetGuid,
+                target: getAssetNodeId(assetId),
                 type: "smoothstep",
-                animated: true,
-                style: { stroke: "#ec4899", strokeWidth: 2 },
+                style: {
+                  stroke: ASSET_EDGE_COLOR,
+                  strokeWidth: 2,
+                  ...(scriptEnabled
+                    ? {}
+                    : { strokeDasharray: "6 4", opacity: 0.5 }),
+                },
                 data: {
                   entityGuid: guid,
                   scriptName,
                   attributeName,
+                  assetId,
+                  arrayIndex: index,
                 },
               });
+            });
+            if (!attr) {
+              return;
             }
+            // One edge per entity slot, so each element of an entity array
+            // or json-schema field is wired and cleared on its own
+            getEntitySlots(attr).forEach(({ path, targetGuid }) => {
+              if (!targetGuid || !entities[targetGuid]) {
+                return;
+              }
+              const handleId = getEntitySlotHandleId(attributeName, path);
+              scriptEdgesMap.push({
+                id: `${scriptNodeId}-${handleId}-${targetGuid}`,
+                source: scriptNodeId,
+                sourceHandle: handleId,
+                target: targetGuid,
+                type: "smoothstep",
+                animated: scriptEnabled,
+                style: scriptEnabled
+                  ? { stroke: "#ec4899", strokeWidth: 2 }
+                  : {
+                      stroke: "#ec4899",
+                      strokeWidth: 2,
+                      strokeDasharray: "6 4",
+                      opacity: 0.5,
+                    },
+                data: {
+                  entityGuid: guid,
+                  scriptName,
+                  attributeName,
+                  ...(path.length ? { path } : {}),
+                },
+              });
+            });
           }
         );
       }
 
-      contentY += SCRIPT_NODE_HEIGHT;
-      if (index < scriptEntries.length - 1) {
-        contentY += SCRIPT_VERTICAL_GAP;
-      }
+      contentY += SCRIPT_NODE_HEIGHT + SCRIPT_VERTICAL_GAP;
     });
 
-    if (scriptEntries.length > 0 && layout.childOrder.length > 0) {
+    getComponentEntries(entity).forEach(([componentType, component]) => {
+      const componentNodeId = getComponentNodeId(guid, componentType);
+      const height = getComponentNodeHeight(componentType, component);
+      const componentPosition = getStoredPosition(componentNodeId, guid, {
+        x: ENTITY_PADDING,
+        y: contentY,
+      });
+
+      nodes.push({
+        id: componentNodeId,
+        type: "component",
+        parentNode: guid,
+        draggable: true,
+        position: componentPosition,
+        style: {
+          width: SCRIPT_NODE_WIDTH,
+          height,
+        },
+        data: {
+          label: componentType,
+          componentType,
+          entityGuid: guid,
+          component,
+        },
+      });
+
+      registerBounds(componentPosition, {
+        width: SCRIPT_NODE_WIDTH,
+        height,
+      });
+
+      contentY += height + SCRIPT_VERTICAL_GAP;
+    });
+
+    if (layout.sectionNodeCount > 0) {
+      // Drop the gap after the last script/component node
+      contentY -= SCRIPT_VERTICAL_GAP;
+    }
+
+    if (layout.sectionNodeCount > 0 && layout.childOrder.length > 0) {
       contentY += SECTION_GAP;
     }
 
@@ -388,6 +588,7 @@ export function buildGraphLayout({
     };
   };
 
+  let gridRight = 0;
   topLevelEntities.forEach((entity) => {
     if (nodesInRow >= columnCount) {
       nodesInRow = 0;
@@ -405,9 +606,29 @@ export function buildGraphLayout({
 
     currentRowX = position.x + result.width + ROOT_GRID_GAP;
     currentRowHeight = Math.max(currentRowHeight, result.height);
+    gridRight = Math.max(gridRight, currentRowX);
     nodesInRow += 1;
   });
 
+  // Asset nodes sit in a column to the right of the entity grid
+  assetIds.forEach((assetId, index) => {
+    const id = getAssetNodeId(assetId);
+    nodes.push({
+      id,
+      type: "asset",
+      draggable: true,
+      position: getStoredPosition(id, null, {
+        x: gridRight,
+        y: index * (ASSET_NODE_HEIGHT + ASSET_VERTICAL_GAP),
+      }),
+      style: {
+        width: ASSET_NODE_WIDTH,
+        height: ASSET_NODE_HEIGHT,
+      },
+      data: { assetId },
+    });
+  });
+
   edges.push(...scriptEdgesMap);
 
   return { nodes, edges };
@@ -0,0 +1,236 @@
+import { evaluateVisibleIf } from "@/components/script-attributes/utils/visibleIf";
+import type { EntityPayload, ScriptAttributePayload } from "@/types/messaging";
+import { findBrokenReferences } from "@/utils/brokenReferences";
+import { getEntitySlotHandleId } from "@/utils/entityReferences";
+import {
+  forEachScriptAttribute,
+  type LintFinding,
+  type LintRule,
+} from "@/utils/sceneLint";
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+const toValueList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [value];
+
+/**
+ * Returns a message when the attribute has an issue, null otherwise.
+ */
+type AttributeCheck = (
+  scriptName: string,
+  attributeName: string,
+  attribute: ScriptAttributePayload
+) => string | null;
+
+/**
+ * Attribute findings skip attributes their visibleif condition hides, as
+ * the editor's inspector does.
+ */
+const checkVisibleAttributes = (
+  entities: Record<string, EntityPayload>,
+  check: AttributeCheck
+): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  forEachScriptAttribute(
+    entities,
+    (entity, scriptName, attributeName, attribute, attributes) => {
+      if (!evaluateVisibleIf(attribute.definition, attributes)) return;
+      const message = check(scriptName, attributeName, attribute);
+      if (message) {
+        findings.push({
+          entityGuid: entity.guid,
+          scriptName,
+          attributeName,
+          message,
+        });
+      }
+    }
+  );
+  return findings;
+};
+
+export const nullReferenceRule: LintRule = {
+  id: "null-reference",
+  title: "Empty references",
+  description:
+    "Entity and asset attributes left empty when their definition has no default.",
+  severity: "warning",
+  check: ({ entities }) =>
+    checkVisibleAttributes(entities, (scriptName, attributeName, attr) => {
+      const definition = attr.definition;
+      const type = attr.type || definition?.type;
+      if (
+        (type !== "entity" && type !== "asset") ||
+        !definition ||
+        definition.array ||
+        !isEmptyValue(attr.value) ||
+        !isEmptyValue(definition.default)
+      ) {
+        return null;
+      }
+      return `${scriptName}.${attributeName} has no ${type} and no default`;
+    }),
+};
+
+export const brokenReferenceRule: LintRule = {
+  id: "broken-reference",
+  title: "Broken references",
+  description: "Entity attributes pointing at entities that no longer exist.",
+  severity: "error",
+  check: ({ entities }) =>
+    findBrokenReferences(entities).map((reference) => ({
+      entityGuid: reference.sourceGuid,
+      scriptName: reference.scriptName,
+      attributeName: reference.attributeName,
+      message: `${reference.scriptName}.${getEntitySlotHandleId(
+        reference.attributeName,
+        reference.path
+      )} points at missing entity ${reference.targetGuid}`,
+    })),
+};
+
+export const valueRangeRule: LintRule = {
+  id: "value-range",
+  title: "Values out of range",
+  description: "Numbers outside their attribute's min or max.",
+  severity: "error",
+  check: ({ entities }) =>
+    checkVisibleAttributes(entities, (scriptName, attributeName, attr) => {
+      const { min, max } = attr.definition ?? {};
+      if (
+        (attr.type || attr.definition?.type) !== "number" ||
+        (typeof min !== "number" && typeof max !== "number")
+      ) {
+        return null;
+      }
+      const outside = toValueList(attr.value).find(
+        (value) =>
+          typeof value === "number" &&
+          ((typeof min === "number" && value < min) ||
+            (typeof max === "number" && value > max))
+      );
+      return outside === undefined
+        ? null
+        : `${scriptName}.${attributeName} is ${outside}, outside ${
+            min ?? "-∞"
+          }…${max ?? "∞"}`;
+    }),
+};
+
+export const enumValueRule: LintRule = {
+  id: "enum-value",
+  title: "Invalid enum values",
+  description: "Values that are not one of the attribute's enum options.",
+  severity: "error",
+  check: ({ entities }) =>
+    checkVisibleAttributes(entities, (scriptName, attributeName, attr) => {
+      const options = attr.definition?.enum?.options;
+      if (!options) {
+        return null;
+      }
+      const allowed = Object.values(options);
+      const invalid = toValueList(attr.value).find(
+        (value) => !isEmptyValue(value) && !allowed.includes(value as never)
+      );
+      return invalid === undefined
+        ? null
+        : `${scriptName}.${attributeName} is ${JSON.stringify(
+            invalid
+          )}, not one of its enum options`;
+    }),
+};
+
+export const inferredTypesRule: LintRule = {
+  id: "inferred-types",
+  title: "Inferred attribute types",
+  description:
+    "Scripts whose asset was not found, so attribute types were guessed from their values.",
+  severity: "warning",
+  check: ({ entities }) => {
+    const findings: LintFinding[] = [];
+    Object.values(entities).forEach((entity) => {
+      const scripts = entity.components?.script?.scripts || {};
+      Object.entries(scripts).forEach(([scriptName, script]) => {
+        const attributes = Object.values(
+          (script as { attributes?: Record<string, ScriptAttributePayload> })
+            .attributes || {}
+        );
+        if (
+          attributes.length &&
+          attributes.every((attribute) => !attribute?.definition)
+        ) {
+          findings.push({
+            entityGuid: entity.guid,
+            scriptName,
+            message: `${scriptName} has no script asset; its attribute types are inferred`,
+          });
+        }
+      });
+    });
+    return findings;
+  },
+};
+
+export const duplicateSiblingNamesRule: LintRule = {
+  id: "duplicate-sibling-names",
+  title: "Duplicate sibling names",
+  description:
+    "Entities sharing a name with a sibling, which breaks lookups by name.",
+  severity: "warning",
+  check: ({ entities }) => {
+    const siblingsByParent = new Map<string | null, EntityPayload[]>();
+    Object.values(entities).forEach((entity) => {
+      const siblings = siblingsByParent.get(entity.parentId) ?? [];
+      siblings.push(entity);
+      siblingsByParent.set(entity.parentId, siblings);
+    });
+
+    const findings: LintFinding[] = [];
+    siblingsByParent.forEach((siblings) => {
+      const counts = new Map<string, number>();
+      siblings.forEach((entity) => {
+        counts.set(entity.name, (counts.get(entity.name) ?? 0) + 1);
+      });
+      siblings.forEach((entity) => {
+        const count = counts.get(entity.name) ?? 0;
+        if (count > 1) {
+          findings.push({
+            entityGuid: entity.guid,
+            message: `${count} siblings are named "${entity.name}"`,
+          });
+        }
+      });
+    });
+    return findings;
+  },
+};
+
+export const emptyEntityRule: LintRule = {
+  id: "empty-entity",
+  title: "Empty entities",
+  description: "Entities with no components and no children.",
+  severity: "info",
+  check: ({ entities, rootGuid }) =>
+    Object.values(entities)
+      .filter(
+        (entity) =>
+          entity.guid !== rootGuid &&
+          !entity.children.length &&
+          !Object.keys(entity.components || {}).length
+      )
+      .map((entity) => ({
+        entityGuid: entity.guid,
+        message: `${entity.name} has no components and no children`,
+      })),
+};
+
+export const BUILT_IN_LINT_RULES: LintRule[] = [
+  nullReferenceRule,
+  brokenReferenceRule,
+  valueRangeRule,
+  enumValueRule,
+  inferredTypesRule,
+  duplicateSiblingNamesRule,
+  emptyEntityRule,
+];
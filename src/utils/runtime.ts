@@ -1,11 +1,44 @@
+import type { EditorInfoPayload, EditorTabInfo } from "@/types/messaging";
+
 const PLAYCANVAS_URL_PATTERNS = [
   "https://playcanvas.com/editor/*",
   "http://playcanvas.com/editor/*",
 ];
 
-async function findEditorTabId(): Promise<number> {
+const TAB_ID_PARAM = "tabId";
+
+/**
+ * The editor tab this graph page is paired with. It is seeded from the
+ * `?tabId=` query param written by the background worker, and kept in the
+ * URL so a reload of the graph page stays on the same editor tab.
+ */
+let boundTabId: number | null = readTabIdFromLocation();
+
+function readTabIdFromLocation(): number | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const raw = new URLSearchParams(window.location.search).get(TAB_ID_PARAM);
+  const parsed = raw ? Number(raw) : NaN;
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+function writeTabIdToLocation(tabId: number | null) {
+  if (typeof window === "undefined" || !window.history?.replaceState) {
+    return;
+  }
+  const url = new URL(window.location.href);
+  if (tabId === null) {
+    url.searchParams.delete(TAB_ID_PARAM);
+  } else {
+    url.searchParams.set(TAB_ID_PARAM, String(tabId));
+  }
+  window.history.replaceState(window.history.state, "", url.toString());
+}
+
+function queryEditorTabs(): Promise<chrome.tabs.Tab[]> {
   if (typeof chrome === "undefined" || !chrome.tabs?.query) {
-    throw new Error("Chrome tabs API is not available");
+    return Promise.reject(new Error("Chrome tabs API is not available"));
   }
 
   return new Promise((resolve, reject) => {
@@ -15,24 +48,61 @@ async function findEditorTabId(): Promise<number> {
         reject(new Error(err.message));
         return;
       }
-      const targetTab = tabs.find((tab) => typeof tab.id === "number");
-      if (!targetTab?.id) {
-        reject(
-          new Error(
-            "No PlayCanvas editor tab detected. Please open https://playcanvas.com/editor"
-          )
-        );
-        return;
-      }
-      resolve(targetTab.id);
+      resolve(tabs.filter((tab) => typeof tab.id === "number"));
     });
   });
 }
 
-export async function sendRuntimeMessage<TResponse>(
+async function findEditorTabId(): Promise<number> {
+  const tabs = await queryEditorTabs();
+
+  if (boundTabId !== null) {
+    if (!tabs.some((tab) => tab.id === boundTabId)) {
+      throw new Error(
+        "The paired PlayCanvas editor tab is no longer open. Pick another editor tab."
+      );
+    }
+    return boundTabId;
+  }
+
+  const targetTab = tabs[0];
+  if (!targetTab?.id) {
+    throw new Error(
+      "No PlayCanvas editor tab detected. Please open https://playcanvas.com/editor"
+    );
+  }
+  // Pair with the first editor we find so later messages stay consistent
+  bindEditorTab(targetTab.id);
+  return targetTab.id;
+}
+
+export function getBoundEditorTabId(): number | null {
+  return boundTabId;
+}
+
+export function bindEditorTab(tabId: number | null) {
+  boundTabId = tabId;
+  writeTabIdToLocation(tabId);
+}
+
+/**
+ * Returns true when a runtime message was sent by the content script of the
+ * editor tab this graph page is paired with.
+ */
+export function isFromBoundEditorTab(
+  sender: chrome.runtime.MessageSender | undefined
+): boolean {
+  const senderTabId = sender?.tab?.id;
+  if (typeof senderTabId !== "number") {
+    return false;
+  }
+  return boundTabId === null || senderTabId === boundTabId;
+}
+
+function sendMessageToTab<TResponse>(
+  tabId: number,
   message: any
 ): Promise<TResponse> {
-  const tabId = await findEditorTabId();
   return new Promise((resolve, reject) => {
     chrome.tabs.sendMessage(tabId, message, (response) => {
       const err = chrome.runtime?.lastError;
@@ -44,3 +114,42 @@ export async function sendRuntimeMessage<TResponse>(
     });
   });
 }
+
+/**
+ * Lists every open PlayCanvas editor tab together with the project and scene
+ * it has loaded, so the user can choose which one to pair with.
+ */
+export async function listEditorTabs(): Promise<EditorTabInfo[]> {
+  const tabs = await queryEditorTabs();
+  return Promise.all(
+    tabs.map(async (tab) => {
+      const tabId = tab.id as number;
+      let info: EditorInfoPayload | null = null;
+      try {
+        const response = await sendMessageToTab<{
+          success: boolean;
+          data?: EditorInfoPayload;
+        }>(tabId, { type: "GRAPH_REQUEST_EDITOR_INFO" });
+        info = response?.success && response.data ? response.data : null;
+      } catch {
+        // Tab is still loading or its content script is not injected yet
+      }
+      return {
+        tabId,
+        title: tab.title || "PlayCanvas Editor",
+        url: tab.url || "",
+        projectId: info?.projectId ?? null,
+        projectName: info?.projectName ?? null,
+        sceneId: info?.sceneId ?? null,
+        sceneName: info?.sceneName ?? null,
+      };
+    })
+  );
+}
+
+export async function sendRuntimeMessage<TResponse>(
+  message: any
+): Promise<TResponse> {
+  const tabId = await findEditorTabId();
+  return sendMessageToTab<TResponse>(tabId, message);
+}
@@ -0,0 +1,183 @@
+import type {
+  ComponentPayload,
+  EntityPayload,
+  SceneGraphPayload,
+  ScriptAttributeDefinition,
+  ScriptAttributePayload,
+  Vec3,
+} from "@/types/messaging";
+
+/**
+ * An entity as stored in a PlayCanvas scene export.
+ */
+export interface ExportedEntity {
+  resource_id?: string;
+  name?: string;
+  parent?: string | null;
+  children?: string[];
+  enabled?: boolean;
+  tags?: string[];
+  position?: Vec3;
+  rotation?: Vec3;
+  scale?: Vec3;
+  components?: Record<string, any>;
+}
+
+/**
+ * Scene JSON as exported from PlayCanvas: entities keyed by resource id.
+ */
+export interface SceneExport {
+  name?: string;
+  scene?: number | string;
+  project_id?: number | string;
+  entities: Record<string, ExportedEntity>;
+}
+
+/**
+ * Attribute definitions by script name, as script assets declare them.
+ */
+export type ScriptDefinitions = Record<
+  string,
+  Record<string, ScriptAttributeDefinition>
+>;
+
+// Same fallbacks as the editor bridge uses when a script has no asset
+const inferAttributeType = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 2) return "vec2";
+    if (value.length === 3) return "vec3";
+    if (value.length === 4) return "vec4";
+    return "array";
+  }
+  const type = typeof value;
+  if (type === "string") return "string";
+  if (type === "number") return "number";
+  if (type === "boolean") return "boolean";
+  if (type === "object") return "json";
+  return null;
+};
+
+const resolveAttributeValue = (
+  definition: ScriptAttributeDefinition | undefined,
+  value: unknown
+) => {
+  if (value !== undefined) {
+    return value;
+  }
+  if (
+    definition &&
+    Object.prototype.hasOwnProperty.call(definition, "default")
+  ) {
+    return definition.default;
+  }
+  return null;
+};
+
+/**
+ * Reads attribute definitions out of exported script assets, given either
+ * as an array or keyed by asset id. When several assets declare the same
+ * script, the newest (highest id) wins, as in the editor bridge.
+ */
+export function collectScriptDefinitions(assets: unknown): ScriptDefinitions {
+  const list = Array.isArray(assets)
+    ? assets
+    : assets && typeof assets === "object"
+    ? Object.values(assets)
+    : [];
+  const definitions: ScriptDefinitions = {};
+  const sourceIds: Record<string, number> = {};
+
+  list.forEach((asset) => {
+    if (!asset || asset.type !== "script") return;
+    const id = Number(asset.id) || 0;
+    const scripts = asset.data?.scripts || {};
+    Object.entries(scripts).forEach(([scriptName, script]) => {
+      if ((sourceIds[scriptName] ?? -1) > id) return;
+      sourceIds[scriptName] = id;
+      definitions[scriptName] =
+        (script as { attributes?: ScriptDefinitions[string] }).attributes ||
+        {};
+    });
+  });
+  return definitions;
+}
+
+const convertScriptComponent = (
+  component: Record<string, any>,
+  definitions: ScriptDefinitions
+): ComponentPayload => {
+  const scripts: Record<string, any> = {};
+  Object.entries(component.scripts || {}).forEach(([scriptName, script]) => {
+    const instance = (script || {}) as Record<string, any>;
+    const scriptDefinitions = definitions[scriptName];
+    const values = instance.attributes || {};
+    const attributes: Record<string, ScriptAttributePayload> = {};
+    new Set([
+      ...Object.keys(scriptDefinitions || {}),
+      ...Object.keys(values),
+    ]).forEach((attributeName) => {
+      const definition = scriptDefinitions?.[attributeName];
+      const rawValue = values[attributeName];
+      attributes[attributeName] = {
+        type: definition?.type || inferAttributeType(rawValue) || "json",
+        value: resolveAttributeValue(definition, rawValue),
+        definition,
+      };
+    });
+    scripts[scriptName] = { ...instance, attributes };
+  });
+  return { ...component, scripts };
+};
+
+/**
+ * Turns a scene export into the payload the graph and the lint rules work
+ * on. Script attributes get their definitions from `definitions`; scripts
+ * missing there fall back to inferred types, like in the editor.
+ */
+export function sceneExportToPayload(
+  scene: SceneExport,
+  definitions: ScriptDefinitions = {}
+): SceneGraphPayload {
+  const entities: Record<string, EntityPayload> = {};
+
+  Object.entries(scene.entities || {}).forEach(([key, exported]) => {
+    const guid = exported.resource_id || key;
+    const parentId = exported.parent || null;
+    const components: Record<string, ComponentPayload> = {};
+    Object.entries(exported.components || {}).forEach(([type, component]) => {
+      components[type] =
+        type === "script"
+          ? convertScriptComponent(component, definitions)
+          : component;
+    });
+    entities[guid] = {
+      guid,
+      name: exported.name ?? guid,
+      parentId,
+      children: exported.children || [],
+      components,
+      enabled: exported.enabled,
+      tags: exported.tags,
+      position: exported.position,
+      rotation: exported.rotation,
+      scale: exported.scale,
+    };
+  });
+
+  const root = Object.values(entities).find((entity) => !entity.parentId);
+  if (!root) {
+    throw new Error("Scene export has no root entity");
+  }
+
+  return {
+    rootGuid: root.guid,
+    entities,
+    selectedEntityName: null,
+    projectId: scene.project_id ?? null,
+    sceneId: scene.scene ?? null,
+    sceneName: scene.name ?? null,
+  };
+}
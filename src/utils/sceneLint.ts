@@ -0,0 +1,115 @@
+import type {
+  EntityPayload,
+  SceneGraphPayload,
+  ScriptAttributePayload,
+} from "@/types/messaging";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface LintIssue {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  entityGuid: string;
+  /**
+   * Set when the issue belongs to a script instance rather than the entity.
+   */
+  scriptName?: string;
+  attributeName?: string;
+}
+
+export type LintFinding = Omit<LintIssue, "ruleId" | "severity">;
+
+/**
+ * A lint check over the whole scene. Rules are plain objects so projects can
+ * pass their own alongside the built-in ones.
+ */
+export interface LintRule {
+  id: string;
+  title: string;
+  description: string;
+  severity: LintSeverity;
+  /**
+   * Rules are on unless a project turns them off; this flips the default.
+   */
+  disabledByDefault?: boolean;
+  check: (payload: SceneGraphPayload) => LintFinding[];
+}
+
+/**
+ * Per-project on/off overrides, by rule id.
+ */
+export type LintRuleSettings = Record<string, boolean>;
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+export const isLintRuleEnabled = (
+  rule: LintRule,
+  settings: LintRuleSettings
+) => settings[rule.id] ?? !rule.disabledByDefault;
+
+/**
+ * Calls `visit` for every attribute of every script instance in the scene.
+ */
+export function forEachScriptAttribute(
+  entities: Record<string, EntityPayload>,
+  visit: (
+    entity: EntityPayload,
+    scriptName: string,
+    attributeName: string,
+    attribute: ScriptAttributePayload,
+    attributes: Record<string, ScriptAttributePayload>
+  ) => void
+) {
+  Object.values(entities).forEach((entity) => {
+    const scripts = entity.components?.script?.scripts || {};
+    Object.entries(scripts).forEach(([scriptName, script]) => {
+      const attributes =
+        (script as { attributes?: Record<string, ScriptAttributePayload> })
+          .attributes || {};
+      Object.entries(attributes).forEach(([attributeName, attribute]) => {
+        if (attribute) {
+          visit(entity, scriptName, attributeName, attribute, attributes);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Runs the enabled rules over a scene and returns their issues, errors
+ * first. A rule that throws is reported as an issue of its own instead of
+ * hiding the others.
+ */
+export function runSceneLint(
+  payload: SceneGraphPayload,
+  rules: LintRule[],
+  settings: LintRuleSettings = {}
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  rules
+    .filter((rule) => isLintRuleEnabled(rule, settings))
+    .forEach((rule) => {
+      try {
+        rule.check(payload).forEach((finding) => {
+          issues.push({ ...finding, ruleId: rule.id, severity: rule.severity });
+        });
+      } catch (error) {
+        issues.push({
+          ruleId: rule.id,
+          severity: "error",
+          entityGuid: payload.rootGuid,
+          message: `Rule "${rule.title}" failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+      }
+    });
+  return issues.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+}
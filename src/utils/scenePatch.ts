@@ -0,0 +1,152 @@
+import type { EntityPayload, ScenePatchOp } from "@/types/messaging";
+
+export interface ApplyPatchResult {
+  entities: Record<string, EntityPayload>;
+  /**
+   * Guids removed by `entity:remove` ops, including their descendants.
+   */
+  removed: string[];
+}
+
+const insertAt = (list: string[], guid: string, index?: number | null) => {
+  const next = list.filter((id) => id !== guid);
+  const position =
+    typeof index === "number" && index >= 0 && index <= next.length
+      ? index
+      : next.length;
+  next.splice(position, 0, guid);
+  return next;
+};
+
+export const getAtPath = (target: any, segments: string[]): unknown =>
+  segments.reduce(
+    (current, segment) =>
+      current && typeof current === "object" ? current[segment] : undefined,
+    target
+  );
+
+/**
+ * Returns a copy of `target` with `value` written at `segments`, copying
+ * every object along the path.
+ */
+export const setAtPath = (
+  target: any,
+  segments: string[],
+  value: unknown
+): any => {
+  const [head, ...rest] = segments;
+  const base = Array.isArray(target)
+    ? [...target]
+    : target && typeof target === "object"
+    ? { ...target }
+    : {};
+  base[head] = rest.length ? setAtPath(base[head], rest, value) : value;
+  return base;
+};
+
+/**
+ * Applies bridge patch ops to an entity map without mutating it. Ops that
+ * reference entities the graph does not know about are skipped; the next
+ * snapshot will bring them in.
+ */
+export function applyPatchOps(
+  source: Record<string, EntityPayload>,
+  ops: ScenePatchOp[]
+): ApplyPatchResult {
+  const entities = { ...source };
+  const removed: string[] = [];
+
+  const updateChildren = (
+    parentId: string | null,
+    update: (children: string[]) => string[]
+  ) => {
+    const parent = parentId ? entities[parentId] : undefined;
+    if (parent) {
+      entities[parent.guid] = {
+        ...parent,
+        children: update(parent.children || []),
+      };
+    }
+  };
+
+  ops.forEach((op) => {
+    switch (op.op) {
+      case "entity:add": {
+        entities[op.entity.guid] = op.entity;
+        updateChildren(op.entity.parentId, (children) =>
+          children.includes(op.entity.guid)
+            ? children
+            : insertAt(children, op.entity.guid, op.index)
+        );
+        break;
+      }
+      case "entity:remove": {
+        const entity = entities[op.guid];
+        if (!entity) break;
+        const stack = [op.guid];
+        while (stack.length) {
+          const guid = stack.pop()!;
+          const current = entities[guid];
+          if (!current) continue;
+          stack.push(...(current.children || []));
+          delete entities[guid];
+          removed.push(guid);
+        }
+        updateChildren(entity.parentId, (children) =>
+          children.filter((id) => id !== op.guid)
+        );
+        break;
+      }
+      case "entity:move": {
+        const entity = entities[op.guid];
+        if (!entity) break;
+        updateChildren(entity.parentId, (children) =>
+          children.filter((id) => id !== op.guid)
+        );
+        updateChildren(op.parentId, (children) =>
+          insertAt(children, op.guid, op.index)
+        );
+        entities[op.guid] = { ...entities[op.guid], parentId: op.parentId };
+        break;
+      }
+      case "entity:set": {
+        const entity = entities[op.guid];
+        if (!entity || !op.path) break;
+        entities[op.guid] = setAtPath(entity, op.path.split("."), op.value);
+        break;
+      }
+      case "component:set": {
+        const entity = entities[op.guid];
+        if (!entity) break;
+        const components = { ...entity.components };
+        if (op.data) {
+          components[op.component] = op.data;
+        } else {
+          delete components[op.component];
+        }
+        entities[op.guid] = { ...entity, components };
+        break;
+      }
+      case "attribute:set": {
+        const entity = entities[op.guid];
+        const script = entity?.components?.script?.scripts?.[op.scriptName];
+        if (!entity || !script) break;
+        entities[op.guid] = setAtPath(
+          entity,
+          [
+            "components",
+            "script",
+            "scripts",
+            op.scriptName,
+            "attributes",
+            op.attributeName,
+          ],
+          op.attribute
+        );
+        break;
+      }
+    }
+  });
+
+  return { entities, removed };
+}
@@ -0,0 +1,211 @@
+import type { EntityPayload, ScriptAttributePayload } from "@/types/messaging";
+
+export type SearchField =
+  | "name"
+  | "path"
+  | "script"
+  | "component"
+  | "attribute";
+
+export interface SceneSearchResult {
+  guid: string;
+  /**
+   * Entity names from the root down to the hit itself.
+   */
+  breadcrumbs: string[];
+  field: SearchField;
+  /**
+   * The text that matched, e.g. `mover.speed = 12` for attribute hits.
+   */
+  matchedText: string;
+  score: number;
+}
+
+type SearchTerm = {
+  field: SearchField;
+  text: string;
+  // What the term is matched on when it differs from what is shown
+  matchOn?: string;
+};
+
+type SearchEntry = {
+  guid: string;
+  breadcrumbs: string[];
+  terms: SearchTerm[];
+};
+
+// Name hits outrank everything else; attribute values are the noisiest
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  script: 0.85,
+  component: 0.75,
+  path: 0.6,
+  attribute: 0.5,
+};
+
+const isWordStart = (text: string, index: number) => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  const current = text[index];
+  return (
+    !/[a-z0-9]/i.test(previous) ||
+    (previous === previous.toLowerCase() &&
+      current !== current.toLowerCase())
+  );
+};
+
+/**
+ * Scores how well `query` matches `text`, or returns null when it does not.
+ * Substrings beat scattered subsequences; matches at word starts and runs
+ * of consecutive characters rank higher, and shorter texts win ties.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle || !haystack) {
+    return null;
+  }
+
+  const lengthPenalty = Math.min(haystack.length - needle.length, 40) * 0.25;
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    const startBonus = index === 0 ? 50 : isWordStart(text, index) ? 25 : 0;
+    return 100 + needle.length * 2 + startBonus - lengthPenalty;
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, from);
+    if (found === -1) {
+      return null;
+    }
+    score += found === previous + 1 ? 5 : isWordStart(text, found) ? 3 : 1;
+    previous = found;
+    from = found + 1;
+  }
+  return score - lengthPenalty;
+}
+
+const formatValue = (value: unknown): string[] => {
+  if (value === null || value === undefined || value === "") return [];
+  if (Array.isArray(value)) return value.flatMap(formatValue);
+  if (typeof value === "object") return [];
+  return [String(value)];
+};
+
+const getBreadcrumbs = (
+  entities: Record<string, EntityPayload>,
+  entity: EntityPayload
+) => {
+  const names = [entity.name];
+  const visited = new Set([entity.guid]);
+  let parentId = entity.parentId;
+  while (parentId && entities[parentId] && !visited.has(parentId)) {
+    visited.add(parentId);
+    names.unshift(entities[parentId].name);
+    parentId = entities[parentId].parentId;
+  }
+  return names;
+};
+
+const buildEntry = (
+  entities: Record<string, EntityPayload>,
+  entity: EntityPayload
+): SearchEntry => {
+  const breadcrumbs = getBreadcrumbs(entities, entity);
+  const terms: SearchTerm[] = [
+    { field: "name", text: entity.name },
+    { field: "path", text: breadcrumbs.join(" / ") },
+  ];
+
+  Object.keys(entity.components || {}).forEach((type) => {
+    terms.push({ field: "component", text: type });
+  });
+
+  const scripts = entity.components?.script?.scripts || {};
+  Object.entries(scripts).forEach(([scriptName, script]) => {
+    terms.push({ field: "script", text: scriptName });
+    const attributes =
+      (script as { attributes?: Record<string, ScriptAttributePayload> })
+        .attributes || {};
+    Object.entries(attributes).forEach(([attributeName, attribute]) => {
+      const type = attribute?.type || attribute?.definition?.type;
+      formatValue(attribute?.value).forEach((value) => {
+        // Entity references are searched by the name of their target
+        const shown =
+          type === "entity" ? entities[value]?.name ?? value : value;
+        terms.push({
+          field: "attribute",
+          text: `${scriptName}.${attributeName} = ${shown}`,
+          matchOn: shown,
+        });
+      });
+    });
+  });
+
+  return { guid: entity.guid, breadcrumbs, terms };
+};
+
+const indexCache = new WeakMap<
+  Record<string, EntityPayload>,
+  SearchEntry[]
+>();
+
+const getSearchIndex = (entities: Record<string, EntityPayload>) => {
+  let index = indexCache.get(entities);
+  if (!index) {
+    index = Object.values(entities).map((entity) =>
+      buildEntry(entities, entity)
+    );
+    indexCache.set(entities, index);
+  }
+  return index;
+};
+
+/**
+ * Ranks the scene's entities against `query`. Each entity appears once,
+ * with the field that matched it best; the index is cached per `entities`
+ * object so searching while typing stays cheap.
+ */
+export function searchScene(
+  entities: Record<string, EntityPayload>,
+  query: string,
+  limit = 50
+): SceneSearchResult[] {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const results: SceneSearchResult[] = [];
+  getSearchIndex(entities).forEach((entry) => {
+    let best: SceneSearchResult | null = null;
+    for (const term of entry.terms) {
+      const raw = fuzzyScore(query, term.matchOn ?? term.text);
+      if (raw === null) continue;
+      const score = raw * FIELD_WEIGHTS[term.field];
+      if (!best || score > best.score) {
+        best = {
+          guid: entry.guid,
+          breadcrumbs: entry.breadcrumbs,
+          field: term.field,
+          matchedText: term.text,
+          score,
+        };
+      }
+    }
+    if (best) {
+      results.push(best);
+    }
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.breadcrumbs.length - b.breadcrumbs.length ||
+        a.matchedText.localeCompare(b.matchedText)
+    )
+    .slice(0, limit);
+}
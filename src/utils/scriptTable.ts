@@ -0,0 +1,301 @@
+import type {
+  EntityPayload,
+  ScriptAttributeDefinition,
+  ScriptAttributePayload,
+} from "@/types/messaging";
+
+export interface ScriptTableColumn {
+  name: string;
+  type: string;
+  definition?: ScriptAttributeDefinition;
+}
+
+export interface ScriptTableRow {
+  entityGuid: string;
+  entityName: string;
+  attributes: Record<string, ScriptAttributePayload>;
+}
+
+export interface ScriptTable {
+  columns: ScriptTableColumn[];
+  rows: ScriptTableRow[];
+}
+
+export interface ScriptTableUpdate {
+  entityGuid: string;
+  attributeName: string;
+  value: unknown;
+}
+
+/**
+ * Name and guid lead every exported row; the guid is what an import matches
+ * rows on, so renamed entities still line up.
+ */
+export const CSV_GUID_COLUMN = "guid";
+export const CSV_NAME_COLUMN = "entity";
+
+const getScriptAttributes = (entity: EntityPayload, scriptName: string) =>
+  (
+    entity.components?.script?.scripts?.[scriptName] as
+      | { attributes?: Record<string, ScriptAttributePayload> }
+      | undefined
+  )?.attributes;
+
+/**
+ * Script names used in the scene with the number of entities carrying each.
+ */
+export function listSceneScripts(
+  entities: Record<string, EntityPayload>
+): Array<{ name: string; count: number }> {
+  const counts = new Map<string, number>();
+  Object.values(entities).forEach((entity) => {
+    Object.keys(entity.components?.script?.scripts || {}).forEach((name) => {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    });
+  });
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * One row per entity carrying `scriptName`, with a column for every
+ * attribute any instance defines.
+ */
+export function buildScriptTable(
+  entities: Record<string, EntityPayload>,
+  scriptName: string
+): ScriptTable {
+  const columns = new Map<string, ScriptTableColumn>();
+  const rows: ScriptTableRow[] = [];
+
+  Object.values(entities).forEach((entity) => {
+    if (!entity.components?.script?.scripts?.[scriptName]) return;
+    const attributes = getScriptAttributes(entity, scriptName) || {};
+    Object.entries(attributes).forEach(([name, attribute]) => {
+      if (!attribute || columns.has(name)) return;
+      columns.set(name, {
+        name,
+        type: attribute.type || attribute.definition?.type || "string",
+        definition: attribute.definition,
+      });
+    });
+    rows.push({
+      entityGuid: entity.guid,
+      entityName: entity.name,
+      attributes,
+    });
+  });
+
+  return {
+    columns: Array.from(columns.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+    rows: rows.sort((a, b) => a.entityName.localeCompare(b.entityName)),
+  };
+}
+
+/**
+ * Text form of a cell, used for filtering, sorting and CSV export.
+ */
+export function formatCellValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function compareCellValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return formatCellValue(a).localeCompare(formatCellValue(b), undefined, {
+    numeric: true,
+  });
+}
+
+// An empty string cell is what an unset attribute exports as, so it
+// counts as no value rather than as an edit
+const toComparable = (value: unknown) =>
+  JSON.stringify(value === "" || value === undefined ? null : value);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || toComparable(a) === toComparable(b);
+
+/**
+ * Reads a CSV cell back into an attribute value of the column's type.
+ * Throws when the text is not a valid value for that type.
+ */
+export function parseCellValue(
+  text: string,
+  column: ScriptTableColumn
+): unknown {
+  const trimmed = text.trim();
+  const isArray = column.definition?.array === true;
+
+  if (!isArray && column.type === "string") {
+    return text;
+  }
+  if (!trimmed) {
+    return isArray ? [] : null;
+  }
+  if (isArray) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`expected a JSON array, got "${trimmed}"`);
+    }
+    return parsed;
+  }
+
+  switch (column.type) {
+    case "number":
+    case "asset": {
+      const number = Number(trimmed);
+      if (Number.isNaN(number)) {
+        throw new Error(`"${trimmed}" is not a number`);
+      }
+      return number;
+    }
+    case "boolean": {
+      const lower = trimmed.toLowerCase();
+      if (lower !== "true" && lower !== "false") {
+        throw new Error(`"${trimmed}" is not true or false`);
+      }
+      return lower === "true";
+    }
+    case "entity":
+      return trimmed;
+    default:
+      return JSON.parse(trimmed);
+  }
+}
+
+const escapeCsvCell = (text: string) =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export function toCsv(table: ScriptTable): string {
+  const header = [
+    CSV_GUID_COLUMN,
+    CSV_NAME_COLUMN,
+    ...table.columns.map((column) => column.name),
+  ];
+  const lines = table.rows.map((row) =>
+    [
+      row.entityGuid,
+      row.entityName,
+      ...table.columns.map((column) =>
+        formatCellValue(row.attributes[column.name]?.value)
+      ),
+    ]
+      .map(escapeCsvCell)
+      .join(",")
+  );
+  return [header.map(escapeCsvCell).join(","), ...lines].join("\n");
+}
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted cells that contain
+ * commas, quotes or line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines, e.g. a trailing newline, carry no data
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+/**
+ * Compares imported CSV text with the table and returns the attribute
+ * writes it implies. Unknown columns are ignored; rows or cells that cannot
+ * be applied are reported in `errors` and skipped.
+ */
+export function diffCsvWithTable(
+  text: string,
+  table: ScriptTable
+): { updates: ScriptTableUpdate[]; errors: string[] } {
+  const [header, ...lines] = parseCsv(text);
+  const updates: ScriptTableUpdate[] = [];
+  const errors: string[] = [];
+
+  const guidIndex = header ? header.indexOf(CSV_GUID_COLUMN) : -1;
+  if (guidIndex === -1) {
+    return { updates, errors: [`Missing "${CSV_GUID_COLUMN}" column`] };
+  }
+
+  // Attributes may share a name with the reserved columns; those columns
+  // come first, so only later cells with the name are the attribute's
+  const nameIndex = header.indexOf(CSV_NAME_COLUMN);
+  const columnsByIndex = new Map<number, ScriptTableColumn>();
+  header.forEach((name, index) => {
+    if (index === guidIndex || index === nameIndex) return;
+    const column = table.columns.find((candidate) => candidate.name === name);
+    if (column) columnsByIndex.set(index, column);
+  });
+  const rowsByGuid = new Map(table.rows.map((row) => [row.entityGuid, row]));
+
+  lines.forEach((cells, lineIndex) => {
+    // +2: one for the header, one because spreadsheets count from 1
+    const lineNumber = lineIndex + 2;
+    const guid = cells[guidIndex]?.trim();
+    const row = guid ? rowsByGuid.get(guid) : undefined;
+    if (!row) {
+      errors.push(
+        `Row ${lineNumber}: no entity with this script has guid "${guid ?? ""}"`
+      );
+      return;
+    }
+    columnsByIndex.forEach((column, index) => {
+      if (index >= cells.length) return;
+      try {
+        const value = parseCellValue(cells[index], column);
+        if (!isSameValue(value, row.attributes[column.name]?.value)) {
+          updates.push({
+            entityGuid: row.entityGuid,
+            attributeName: column.name,
+            value,
+          });
+        }
+      } catch (error) {
+        errors.push(
+          `Row ${lineNumber}, ${column.name}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    });
+  });
+
+  return { updates, errors };
+}
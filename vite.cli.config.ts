@@ -0,0 +1,23 @@
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { defineConfig } from "vite";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Builds the headless scene lint command only; none of the extension's
+// public files belong next to it
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@/": `${resolve(__dirname, "src")}/`,
+      "@": resolve(__dirname, "src"),
+    },
+  },
+  build: {
+    ssr: resolve(__dirname, "src/cli/lintScene.ts"),
+    outDir: "dist-cli",
+    emptyOutDir: true,
+  },
+});